@@ -0,0 +1,25 @@
+-- Ledger of every push/email delivery attempt made by NotificationService.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    status TEXT NOT NULL,
+    recipient_address TEXT,
+    course_activity_id INTEGER,
+    course_run_id INTEGER,
+    group_id INTEGER,
+    task_run_id TEXT,
+    provider_response_id TEXT,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_user_idx
+    ON notification_deliveries (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_activity_idx
+    ON notification_deliveries (course_activity_id, course_run_id);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_kind_idx
+    ON notification_deliveries (kind, created_at DESC);
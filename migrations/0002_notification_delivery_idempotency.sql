@@ -0,0 +1,8 @@
+-- Idempotency key (kind:context:recipient) used to skip re-sending a
+-- notification that already succeeded when a task is retried.
+ALTER TABLE notification_deliveries
+    ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_idempotency_idx
+    ON notification_deliveries (idempotency_key, channel)
+    WHERE status = 'sent';
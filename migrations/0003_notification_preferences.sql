@@ -0,0 +1,19 @@
+-- Per-user opt-outs. NULL kind/channel/course_id means "any", so a single row
+-- can mute a whole channel, a whole course, or one kind on one channel.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    kind TEXT,
+    channel TEXT,
+    course_id INTEGER,
+    enabled BOOLEAN NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS notification_preferences_scope_idx
+    ON notification_preferences (
+        user_id,
+        COALESCE(kind, ''),
+        COALESCE(channel, ''),
+        COALESCE(course_id, 0)
+    );
@@ -0,0 +1,4 @@
+-- Why and when a web-push subscription was turned off (gone/expired endpoint).
+ALTER TABLE notification_records
+    ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deactivation_reason TEXT;
@@ -0,0 +1,12 @@
+-- Per-course overrides for the student deadline reminder ladder. A row with a
+-- NULL activity_type applies to every activity type in the course.
+CREATE TABLE IF NOT EXISTS reminder_settings (
+    id BIGSERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL,
+    activity_type TEXT,
+    offsets_minutes INTEGER[] NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reminder_settings_scope_idx
+    ON reminder_settings (course_id, COALESCE(activity_type, ''));
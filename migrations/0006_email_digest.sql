@@ -0,0 +1,25 @@
+-- Per-user notification settings. email_digest holds back non-urgent emails
+-- and sends them as one daily digest instead.
+CREATE TABLE IF NOT EXISTS user_notification_settings (
+    user_id TEXT PRIMARY KEY,
+    email_digest BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Emails waiting for the next daily digest. sent_at is set once the digest
+-- containing the item has gone out.
+CREATE TABLE IF NOT EXISTS notification_digest_queue (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL UNIQUE,
+    course_run_id INTEGER,
+    title TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS notification_digest_queue_pending_idx
+    ON notification_digest_queue (user_id, created_at)
+    WHERE sent_at IS NULL;
@@ -0,0 +1,4 @@
+-- Preferred language for notifications ('en', 'hi' or 'kn'). NULL or an
+-- unsupported value falls back to English.
+ALTER TABLE user_notification_settings
+    ADD COLUMN IF NOT EXISTS locale TEXT;
@@ -0,0 +1,4 @@
+-- IANA timezone used to render dates and time reminders for the user, e.g.
+-- 'Europe/Berlin'. NULL or an unknown name falls back to Asia/Kolkata.
+ALTER TABLE user_notification_settings
+    ADD COLUMN IF NOT EXISTS timezone TEXT;
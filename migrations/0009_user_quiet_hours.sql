@@ -0,0 +1,6 @@
+-- Local times between which non-urgent push notifications are held back.
+-- Both NULL means the institution default (QUIET_HOURS_START/END); equal
+-- values turn quiet hours off for the user.
+ALTER TABLE user_notification_settings
+    ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+    ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
@@ -0,0 +1,24 @@
+-- In-app inbox shown behind the bell in the LearnX web app. Every push-worthy
+-- notification gets a row, so dismissing a push never loses it. read_at is
+-- set when the user opens or marks it read.
+CREATE TABLE IF NOT EXISTS in_app_notifications (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    link TEXT,
+    course_activity_id INTEGER,
+    course_run_id INTEGER,
+    group_id INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    read_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS in_app_notifications_user_idx
+    ON in_app_notifications (user_id, id DESC);
+
+CREATE INDEX IF NOT EXISTS in_app_notifications_unread_idx
+    ON in_app_notifications (user_id)
+    WHERE read_at IS NULL;
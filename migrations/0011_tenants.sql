@@ -0,0 +1,24 @@
+-- Branding for each institution sharing this LearnX deployment. NULL columns
+-- fall back to the default (LearnX / Atria University) branding.
+CREATE TABLE IF NOT EXISTS tenants (
+    id SERIAL PRIMARY KEY,
+    slug TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    app_url TEXT,
+    icon_url TEXT,
+    logo_url TEXT,
+    primary_color TEXT,
+    support_email TEXT,
+    sign_off TEXT,
+    from_address TEXT,
+    from_name TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A course belongs to a tenant; groups not tied to a course can name one
+-- directly. NULL means the default branding.
+ALTER TABLE courses
+    ADD COLUMN IF NOT EXISTS tenant_id INTEGER REFERENCES tenants (id);
+
+ALTER TABLE groups
+    ADD COLUMN IF NOT EXISTS tenant_id INTEGER REFERENCES tenants (id);
@@ -0,0 +1,13 @@
+-- Phone number for SMS and WhatsApp notifications, in E.164 format
+-- (+919876543210). WhatsApp messages also need the user's opt-in.
+ALTER TABLE user_notification_settings
+    ADD COLUMN IF NOT EXISTS phone_number TEXT,
+    ADD COLUMN IF NOT EXISTS whatsapp_opt_in BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Channels a notification kind goes out on, overriding the defaults in
+-- src/lib/notification-kinds.ts. Kinds without a row use the defaults.
+CREATE TABLE IF NOT EXISTS notification_kind_channels (
+    kind TEXT PRIMARY KEY,
+    channels TEXT[] NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,24 @@
+-- Deliveries that failed for good: on a permanent error, or after running
+-- out of retries. Kept for manual replay; replayed_at is set once a replay
+-- has been attempted.
+CREATE TABLE IF NOT EXISTS notification_dead_letters (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL,
+    course_activity_id INTEGER,
+    course_run_id INTEGER,
+    group_id INTEGER,
+    task_run_id TEXT,
+    context JSONB NOT NULL,
+    error TEXT NOT NULL,
+    permanent BOOLEAN NOT NULL,
+    attempts INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    replayed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS notification_dead_letters_pending_idx
+    ON notification_dead_letters (created_at)
+    WHERE replayed_at IS NULL;
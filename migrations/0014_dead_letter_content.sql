@@ -0,0 +1,9 @@
+-- The rendered message each dead letter would have sent (push, email, inbox
+-- entry or text), so a replay sends exactly that without re-running the
+-- task. Rows stored before this column existed can't be replayed.
+ALTER TABLE notification_dead_letters
+    ADD COLUMN IF NOT EXISTS content JSONB,
+    ADD COLUMN IF NOT EXISTS replay_error TEXT;
+
+CREATE INDEX IF NOT EXISTS notification_dead_letters_user_idx
+    ON notification_dead_letters (user_id, created_at);
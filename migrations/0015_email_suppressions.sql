@@ -0,0 +1,15 @@
+-- Addresses we must stop emailing: hard bounces and spam complaints
+-- reported by the email provider's webhook. Keyed by lower-cased address,
+-- so a user who changes their email is mailed again.
+CREATE TABLE IF NOT EXISTS email_suppressions (
+    address TEXT PRIMARY KEY,
+    -- The user the address belonged to when it was suppressed, if any.
+    user_id TEXT,
+    reason TEXT NOT NULL,
+    detail TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS email_suppressions_user_idx
+    ON email_suppressions (user_id);
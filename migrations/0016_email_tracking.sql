@@ -0,0 +1,17 @@
+-- Email opens (tracking pixel loads) and CTA clicks. idempotency_key ties an
+-- event to the email's row in notification_deliveries; delivery_id is that
+-- row when it could be found.
+CREATE TABLE IF NOT EXISTS email_tracking_events (
+    id BIGSERIAL PRIMARY KEY,
+    delivery_id BIGINT,
+    idempotency_key TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    course_run_id INTEGER,
+    event TEXT NOT NULL,
+    url TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS email_tracking_events_key_idx
+    ON email_tracking_events (idempotency_key, event);
@@ -0,0 +1,95 @@
+import { appBaseUrl } from './deep-links';
+import { safeUrl } from './html';
+
+// How emails and push notifications look for one institution.
+export interface Branding {
+    // Institution name, e.g. for logo alt text.
+    name: string;
+    // Base URL of the web app; deep links are built on it.
+    appUrl: string;
+    // Square app icon, shown in the email header and on push notifications.
+    iconUrl: string;
+    // Institution logo, shown on the right of the email header.
+    logoUrl: string;
+    // Hex colour of the email header, button and links.
+    primaryColor: string;
+    supportEmail: string;
+    signOff: string;
+    fromAddress: string;
+    fromName: string;
+}
+
+/**
+ * Branding for notifications not tied to a tenant, and for anything a
+ * tenant leaves unset. The from address and app URL come from the
+ * environment.
+ */
+export function defaultBranding(): Branding {
+    return {
+        name: 'Atria University',
+        appUrl: appBaseUrl(),
+        iconUrl: 'https://bucket.xcelerator.co.in/maskable-icon-192.png',
+        logoUrl: 'https://assets.xcelerator.co.in/AUFull.png',
+        primaryColor: '#625A96',
+        supportEmail: 'support@xcelerator.co.in',
+        signOff: 'Team Xcelerator',
+        fromAddress:
+            process.env.EMAIL_FROM_ADDRESS ||
+            process.env.ZEPTO_FROM_ADDRESS ||
+            'tech@xcelerator.co.in',
+        fromName:
+            process.env.EMAIL_FROM_NAME ||
+            process.env.ZEPTO_FROM_NAME ||
+            'LearnX',
+    };
+}
+
+// A row of the tenants table.
+export interface TenantRow {
+    name: string;
+    app_url?: string | null;
+    icon_url?: string | null;
+    logo_url?: string | null;
+    primary_color?: string | null;
+    support_email?: string | null;
+    sign_off?: string | null;
+    from_address?: string | null;
+    from_name?: string | null;
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const EMAIL_ADDRESS = /^[^\s@<>"]+@[^\s@<>"]+$/;
+
+const validUrl = (value: string | null | undefined) => {
+    if (!value) return undefined;
+    try {
+        return safeUrl(value);
+    } catch {
+        return undefined;
+    }
+};
+
+const matching = (value: string | null | undefined, pattern: RegExp) =>
+    value && pattern.test(value) ? value : undefined;
+
+/**
+ * Branding from a tenants row. Values that are missing, or that can't safely
+ * go into an email (bad URLs, colours or addresses), use the default.
+ */
+export function tenantBranding(row: TenantRow): Branding {
+    const defaults = defaultBranding();
+    return {
+        name: row.name || defaults.name,
+        appUrl: validUrl(row.app_url) ?? defaults.appUrl,
+        iconUrl: validUrl(row.icon_url) ?? defaults.iconUrl,
+        logoUrl: validUrl(row.logo_url) ?? defaults.logoUrl,
+        primaryColor:
+            matching(row.primary_color, HEX_COLOR) ?? defaults.primaryColor,
+        supportEmail:
+            matching(row.support_email, EMAIL_ADDRESS) ?? defaults.supportEmail,
+        signOff: row.sign_off || defaults.signOff,
+        fromAddress:
+            matching(row.from_address, EMAIL_ADDRESS) ?? defaults.fromAddress,
+        fromName: row.from_name || defaults.fromName,
+    };
+}
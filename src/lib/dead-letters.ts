@@ -0,0 +1,194 @@
+import { Pool } from 'pg';
+import { trustedHtml } from './html';
+import { InAppContent, PushContent, TextContent } from './notification-content';
+import {
+    NotificationChannel,
+    NotificationContext,
+    NotificationKind,
+    TextChannel,
+} from './notification-types';
+import { EmailContent } from './notify-service';
+
+// What a dead letter would have sent on its channel.
+export type DeadLetterContent =
+    | { channel: 'push'; push: PushContent }
+    | { channel: 'email'; email: EmailContent }
+    | { channel: 'in_app'; inApp: InAppContent }
+    | { channel: TextChannel; text: TextContent };
+
+export interface DeadLetter {
+    userId: string;
+    context: NotificationContext;
+    content: DeadLetterContent;
+    idempotencyKey: string;
+    error: string;
+    // False when the delivery ran out of retries on a transient error.
+    permanent: boolean;
+    attempts: number;
+}
+
+export interface DeadLetterRecord {
+    id: number;
+    userId: string;
+    channel: NotificationChannel;
+    kind: NotificationKind;
+    context: NotificationContext;
+    // Null for rows stored before content was kept; those can't be replayed.
+    content: DeadLetterContent | null;
+    error: string;
+    permanent: boolean;
+    attempts: number;
+    taskRunId: string | null;
+    createdAt: Date;
+    replayedAt: Date | null;
+    replayError: string | null;
+}
+
+export interface DeadLetterQuery {
+    kind?: NotificationKind;
+    channel?: NotificationChannel;
+    userId?: string;
+    runId?: number;
+    taskRunId?: string;
+    from?: Date;
+    to?: Date;
+    // Also match letters that were already replayed.
+    includeReplayed?: boolean;
+    limit?: number;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+
+function toDeadLetterRecord(row: any): DeadLetterRecord {
+    const content: DeadLetterContent | null = row.content;
+    // The email body was escaped when it was rendered, before it was stored.
+    if (content?.channel === 'email') {
+        content.email.body = trustedHtml(String(content.email.body));
+    }
+    return {
+        id: Number(row.id),
+        userId: row.user_id,
+        channel: row.channel,
+        kind: row.kind,
+        context: row.context,
+        content,
+        error: row.error,
+        permanent: row.permanent,
+        attempts: row.attempts,
+        taskRunId: row.task_run_id,
+        createdAt: new Date(row.created_at),
+        replayedAt: row.replayed_at ? new Date(row.replayed_at) : null,
+        replayError: row.replay_error,
+    };
+}
+
+/**
+ * Deliveries that failed for good, kept in notification_dead_letters (see
+ * migrations/) with what they would have sent, so they can be replayed.
+ */
+export class DeadLetters {
+    private pool: Pool;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    /**
+     * Store a failed delivery. Like the delivery log, failing to write it
+     * is logged and swallowed.
+     */
+    async add(letter: DeadLetter): Promise<void> {
+        try {
+            await this.pool.query(
+                `INSERT INTO notification_dead_letters
+           (user_id, channel, kind, idempotency_key, course_activity_id,
+            course_run_id, group_id, task_run_id, context, content, error,
+            permanent, attempts)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+                [
+                    letter.userId,
+                    letter.content.channel,
+                    letter.context.kind,
+                    letter.idempotencyKey,
+                    letter.context.courseActivityId ?? null,
+                    letter.context.runId ?? null,
+                    letter.context.groupId ?? null,
+                    letter.context.taskRunId ?? null,
+                    JSON.stringify(letter.context),
+                    JSON.stringify(letter.content),
+                    letter.error,
+                    letter.permanent,
+                    letter.attempts,
+                ],
+            );
+        } catch (error) {
+            console.error(
+                `Failed to store dead letter for ${letter.content.channel} delivery to userId: ${letter.userId}`,
+                error,
+            );
+        }
+    }
+
+    /**
+     * Look up dead letters, oldest first. All filters are optional and
+     * combined with AND; letters already replayed are left out unless
+     * `includeReplayed` is set.
+     */
+    async find(query: DeadLetterQuery): Promise<DeadLetterRecord[]> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        const addCondition = (sql: string, value: unknown) => {
+            params.push(value);
+            conditions.push(sql.replace('?', `$${params.length}`));
+        };
+
+        if (!query.includeReplayed) conditions.push('replayed_at IS NULL');
+        if (query.kind) addCondition('kind = ?', query.kind);
+        if (query.channel) addCondition('channel = ?', query.channel);
+        if (query.userId) addCondition('user_id = ?', query.userId);
+        if (query.runId !== undefined) {
+            addCondition('course_run_id = ?', query.runId);
+        }
+        if (query.taskRunId) addCondition('task_run_id = ?', query.taskRunId);
+        if (query.from) addCondition('created_at >= ?', query.from);
+        if (query.to) addCondition('created_at < ?', query.to);
+
+        const limit = Math.min(
+            query.limit ?? DEFAULT_QUERY_LIMIT,
+            MAX_QUERY_LIMIT,
+        );
+        params.push(limit);
+
+        const res = await this.pool.query(
+            `SELECT * FROM notification_dead_letters
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at
+       LIMIT $${params.length}`,
+            params,
+        );
+
+        return res.rows.map(toDeadLetterRecord);
+    }
+
+    async markReplayed(id: number): Promise<void> {
+        await this.pool.query(
+            `UPDATE notification_dead_letters
+       SET replayed_at = NOW(), replay_error = NULL
+       WHERE id = $1`,
+            [id],
+        );
+    }
+
+    /**
+     * Note why a replay failed. The letter stays pending so it can be
+     * replayed again.
+     */
+    async recordReplayFailure(id: number, error: string): Promise<void> {
+        await this.pool.query(
+            `UPDATE notification_dead_letters SET replay_error = $2 WHERE id = $1`,
+            [id, error],
+        );
+    }
+}
@@ -0,0 +1,137 @@
+import { Pool } from 'pg';
+
+export interface EffectiveDeadlines {
+    // Deadline for everyone in the run without a personal extension: the
+    // run_activity_overrides window_end if set, else the scheduled deadline.
+    runDeadline: Date;
+    // Whether run_activity_overrides disables the activity for this run.
+    isDisabled: boolean;
+    // Students whose student_run_activity_overrides deadline differs from
+    // the run deadline, keyed by user id.
+    studentDeadlines: Map<string, Date>;
+}
+
+export interface RecipientFilter {
+    userIds?: string[];
+    excludeUserIds?: string[];
+}
+
+/**
+ * Resolve the deadline each student in a run actually has for an activity,
+ * applying run-level and then student-level overrides on top of the
+ * scheduled deadline.
+ */
+export async function resolveEffectiveDeadlines(
+    pool: Pool,
+    courseActivityId: number,
+    runId: number,
+    scheduledDeadline: Date,
+): Promise<EffectiveDeadlines> {
+    const runOverrideRes = await pool.query(
+        `SELECT window_end, is_disabled FROM run_activity_overrides
+     WHERE course_run_id = $1 AND course_activity_id = $2`,
+        [runId, courseActivityId],
+    );
+    const runOverride = runOverrideRes.rows[0];
+    const runDeadline = runOverride?.window_end
+        ? new Date(runOverride.window_end)
+        : scheduledDeadline;
+
+    const studentOverridesRes = await pool.query(
+        `SELECT user_id, new_deadline FROM student_run_activity_overrides
+     WHERE course_run_id = $1 AND course_activity_id = $2 AND new_deadline IS NOT NULL`,
+        [runId, courseActivityId],
+    );
+    const studentDeadlines = new Map<string, Date>();
+    for (const row of studentOverridesRes.rows) {
+        const deadline = new Date(row.new_deadline);
+        if (deadline.getTime() !== runDeadline.getTime()) {
+            studentDeadlines.set(row.user_id, deadline);
+        }
+    }
+
+    return {
+        runDeadline,
+        isDisabled: Boolean(runOverride?.is_disabled),
+        studentDeadlines,
+    };
+}
+
+export interface DeadlineGroup extends RecipientFilter {
+    deadline: Date;
+}
+
+/**
+ * Split a run into one group per distinct effective deadline: everyone on
+ * the run deadline (minus students with their own), then the students
+ * sharing each personal deadline. Jobs that fire at a deadline are
+ * scheduled once per group.
+ */
+export function groupByEffectiveDeadline(
+    deadlines: EffectiveDeadlines,
+): DeadlineGroup[] {
+    const overriddenUserIds = Array.from(deadlines.studentDeadlines.keys());
+    const groups: DeadlineGroup[] = [
+        overriddenUserIds.length
+            ? {
+                  deadline: deadlines.runDeadline,
+                  excludeUserIds: overriddenUserIds,
+              }
+            : { deadline: deadlines.runDeadline },
+    ];
+
+    const byTime = new Map<number, string[]>();
+    for (const [userId, deadline] of deadlines.studentDeadlines) {
+        const userIds = byTime.get(deadline.getTime()) ?? [];
+        userIds.push(userId);
+        byTime.set(deadline.getTime(), userIds);
+    }
+    for (const [time, userIds] of byTime) {
+        groups.push({ deadline: new Date(time), userIds });
+    }
+    return groups;
+}
+
+/**
+ * Narrow a recipient list to the students a per-deadline run is for.
+ */
+export function filterRecipients<T extends { id: string }>(
+    recipients: T[],
+    filter: RecipientFilter,
+): T[] {
+    return recipients.filter(
+        (recipient) =>
+            (!filter.userIds || filter.userIds.includes(recipient.id)) &&
+            !filter.excludeUserIds?.includes(recipient.id),
+    );
+}
+
+// Tags the schedule* tasks put on the delayed runs that depend on an
+// activity's deadline in a course run. Deferred pushes carry their kind as a
+// tag, so a reminder waiting out quiet hours matches too. Redo auto-submits
+// ('auto_submit_redo') follow the student's redo deadline, not the
+// activity's, so they are left alone.
+export const DEADLINE_JOB_TAGS = [
+    'student_deadline',
+    'manager_warning',
+    'missed_deadline',
+    'facilitator_summary',
+    'auto_submit',
+    'auto_submit_override',
+];
+
+/**
+ * Whether a delayed run with these tags depends on the activity's deadline
+ * in this course run, and so must go when the deadline moves.
+ */
+export function isDeadlineJobFor(
+    tags: string[],
+    courseActivityId: number,
+    runId: number,
+): boolean {
+    return (
+        tags.includes(`activity_${courseActivityId}`) &&
+        tags.includes(`run_${runId}`) &&
+        tags.some((tag) => DEADLINE_JOB_TAGS.includes(tag))
+    );
+}
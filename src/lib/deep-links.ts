@@ -0,0 +1,51 @@
+// Canonical links into the LearnX web app. Emails use them for their button,
+// push notifications send them as data.url and inbox entries link to them,
+// so every channel lands the user on the same page. The builders return
+// paths; appUrl resolves them against the base URL of the recipient's
+// tenant (see ./branding).
+
+export const DEFAULT_APP_URL = 'https://learnx.atriauniversity.in';
+
+/**
+ * Base URL of the LearnX web app, set with LEARNX_APP_URL. Tenants can
+ * override it with their own app_url.
+ */
+export function appBaseUrl(): string {
+    return process.env.LEARNX_APP_URL || DEFAULT_APP_URL;
+}
+
+/**
+ * `path` joined onto the base URL. Paths are relative to the base's own
+ * path, so an app served under https://x.org/learn keeps its /learn.
+ */
+export function appUrl(path: string, baseUrl = appBaseUrl()): string {
+    const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+    return new URL(path.replace(/^\/+/, ''), base).toString();
+}
+
+const segment = (value: string | number) =>
+    encodeURIComponent(value.toString());
+
+export const deepLinks = {
+    dashboard: () => '/',
+
+    // An activity in a course run, where students submit and facilitators
+    // review submissions.
+    activity: (runId: number, courseActivityId: number) =>
+        `/runs/${segment(runId)}/activities/${segment(courseActivityId)}`,
+
+    // The student's grade for one activity in a run.
+    grades: (runId: number, courseActivityId: number) =>
+        `/runs/${segment(runId)}/grades/${segment(courseActivityId)}`,
+
+    group: (groupId: number) => `/groups/${segment(groupId)}`,
+
+    // A document in a run, or the run's documents page when the id isn't
+    // known.
+    document: (runId: number, documentId?: number) =>
+        documentId === undefined
+            ? `/runs/${segment(runId)}/documents`
+            : `/runs/${segment(runId)}/documents/${segment(documentId)}`,
+
+    courseRun: (runId: number) => `/runs/${segment(runId)}`,
+};
@@ -0,0 +1,211 @@
+import { Pool } from 'pg';
+import {
+    NotificationChannel,
+    NotificationContext,
+    NotificationKind,
+} from './notification-types';
+
+export const DELIVERY_STATUSES = [
+    'sent',
+    'failed',
+    'skipped',
+    'duplicate',
+    'suppressed',
+    'queued',
+    'deferred',
+] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+export interface DeliveryAttempt {
+    userId: string;
+    channel: NotificationChannel;
+    context: NotificationContext;
+    status: DeliveryStatus;
+    idempotencyKey?: string;
+    recipientAddress?: string;
+    providerResponseId?: string;
+    error?: string;
+}
+
+export interface DeliveryRecord {
+    id: number;
+    userId: string;
+    channel: NotificationChannel;
+    kind: NotificationKind;
+    status: DeliveryStatus;
+    idempotencyKey: string | null;
+    recipientAddress: string | null;
+    courseActivityId: number | null;
+    runId: number | null;
+    groupId: number | null;
+    taskRunId: string | null;
+    providerResponseId: string | null;
+    error: string | null;
+    createdAt: Date;
+}
+
+export interface DeliveryQuery {
+    userId?: string;
+    email?: string;
+    kind?: NotificationKind;
+    channel?: NotificationChannel;
+    status?: DeliveryStatus;
+    courseActivityId?: number;
+    runId?: number;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+
+/**
+ * Key identifying one logical notification to one recipient, e.g.
+ * `score_published:42:7:user-1`. A retried task produces the same key, so a
+ * channel that already succeeded for it can be skipped.
+ */
+export function buildIdempotencyKey(
+    context: NotificationContext,
+    userId: string,
+): string {
+    return [
+        context.kind,
+        context.courseActivityId,
+        context.runId,
+        context.groupId,
+        context.reference,
+        userId,
+    ]
+        .filter((part) => part !== undefined && part !== '')
+        .join(':');
+}
+
+function toDeliveryRecord(row: any): DeliveryRecord {
+    return {
+        id: Number(row.id),
+        userId: row.user_id,
+        channel: row.channel,
+        kind: row.kind,
+        status: row.status,
+        idempotencyKey: row.idempotency_key,
+        recipientAddress: row.recipient_address,
+        courseActivityId: row.course_activity_id,
+        runId: row.course_run_id,
+        groupId: row.group_id,
+        taskRunId: row.task_run_id,
+        providerResponseId: row.provider_response_id,
+        error: row.error,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+/**
+ * Ledger of every push, email and in-app delivery attempt, backed by the
+ * notification_deliveries table (see migrations/).
+ */
+export class DeliveryLog {
+    private pool: Pool;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    /**
+     * Record a delivery attempt. Failing to write the ledger must never fail
+     * the notification itself, so errors are logged and swallowed.
+     */
+    async record(attempt: DeliveryAttempt): Promise<void> {
+        try {
+            await this.pool.query(
+                `INSERT INTO notification_deliveries
+           (user_id, channel, kind, status, idempotency_key, recipient_address,
+            course_activity_id, course_run_id, group_id, task_run_id,
+            provider_response_id, error)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+                [
+                    attempt.userId,
+                    attempt.channel,
+                    attempt.context.kind,
+                    attempt.status,
+                    attempt.idempotencyKey ?? null,
+                    attempt.recipientAddress ?? null,
+                    attempt.context.courseActivityId ?? null,
+                    attempt.context.runId ?? null,
+                    attempt.context.groupId ?? null,
+                    attempt.context.taskRunId ?? null,
+                    attempt.providerResponseId ?? null,
+                    attempt.error ?? null,
+                ],
+            );
+        } catch (error) {
+            console.error(
+                `Failed to record ${attempt.channel} delivery for userId: ${attempt.userId}`,
+                error,
+            );
+        }
+    }
+
+    /**
+     * Whether a delivery with this idempotency key already succeeded on the
+     * given channel.
+     */
+    async hasSucceeded(
+        idempotencyKey: string,
+        channel: NotificationChannel,
+    ): Promise<boolean> {
+        const res = await this.pool.query(
+            `SELECT 1 FROM notification_deliveries
+       WHERE idempotency_key = $1 AND channel = $2 AND status = 'sent'
+       LIMIT 1`,
+            [idempotencyKey, channel],
+        );
+        return res.rows.length > 0;
+    }
+
+    /**
+     * Look up delivery attempts, newest first. All filters are optional and
+     * combined with AND.
+     */
+    async find(query: DeliveryQuery): Promise<DeliveryRecord[]> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        const addCondition = (sql: string, value: unknown) => {
+            params.push(value);
+            conditions.push(sql.replace('?', `$${params.length}`));
+        };
+
+        if (query.userId) addCondition('d.user_id = ?', query.userId);
+        if (query.email) addCondition('LOWER(u.email) = LOWER(?)', query.email);
+        if (query.kind) addCondition('d.kind = ?', query.kind);
+        if (query.channel) addCondition('d.channel = ?', query.channel);
+        if (query.status) addCondition('d.status = ?', query.status);
+        if (query.courseActivityId !== undefined) {
+            addCondition('d.course_activity_id = ?', query.courseActivityId);
+        }
+        if (query.runId !== undefined) {
+            addCondition('d.course_run_id = ?', query.runId);
+        }
+        if (query.from) addCondition('d.created_at >= ?', query.from);
+        if (query.to) addCondition('d.created_at < ?', query.to);
+
+        const limit = Math.min(
+            query.limit ?? DEFAULT_QUERY_LIMIT,
+            MAX_QUERY_LIMIT,
+        );
+        params.push(limit);
+
+        const res = await this.pool.query(
+            `SELECT d.* FROM notification_deliveries d
+       LEFT JOIN users u ON u.id = d.user_id
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY d.created_at DESC
+       LIMIT $${params.length}`,
+            params,
+        );
+
+        return res.rows.map(toDeliveryRecord);
+    }
+}
@@ -0,0 +1,177 @@
+import { TZDate } from '@date-fns/tz';
+import { Pool } from 'pg';
+import { SafeHtml, trustedHtml } from './html';
+import { kindsWithUrgency } from './notification-kinds';
+import { NotificationContext, NotificationKind } from './notification-types';
+import { UserSettings } from './user-settings';
+import { DEFAULT_TIMEZONE } from './utils';
+
+// Kinds whose email can wait for the daily digest when a user has it turned
+// on. Deadlines, warnings and security mail always go out straight away.
+export const DIGEST_KINDS: NotificationKind[] = kindsWithUrgency('low');
+
+// Local hour at which each user's digest goes out, well clear of quiet hours.
+export const DIGEST_LOCAL_HOUR = 19;
+
+/**
+ * Whether a digest run at `at` should send to a user in `timeZone`. The
+ * digest task runs every half hour, so exactly one run a day falls in the
+ * first half of the digest hour for every timezone, including those offset
+ * by 30 or 45 minutes.
+ */
+export function isDigestDue(at: Date, timeZone: string): boolean {
+    const local = new TZDate(at, timeZone);
+    return local.getHours() === DIGEST_LOCAL_HOUR && local.getMinutes() < 30;
+}
+
+// One line in the digest.
+export interface DigestItem {
+    title: string;
+    summary: SafeHtml;
+}
+
+// A null title is the section for items not tied to a course run.
+export interface DigestSection {
+    title: string | null;
+    items: DigestItem[];
+}
+
+export interface PendingDigest {
+    userId: string;
+    itemIds: number[];
+    sections: DigestSection[];
+}
+
+/**
+ * Holds non-urgent emails for users who chose a daily digest, backed by
+ * user_notification_settings and notification_digest_queue (see
+ * migrations/).
+ */
+export class DigestQueue {
+    private pool: Pool;
+    private userSettings: UserSettings;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+        this.userSettings = new UserSettings(pool);
+    }
+
+    async isDigestEnabled(userId: string): Promise<boolean> {
+        return (await this.userSettings.get(userId)).emailDigest;
+    }
+
+    /**
+     * Pending digests for users whose local digest time falls in the run at
+     * `at`. Everyone else's items wait for their own digest time and aren't
+     * loaded.
+     */
+    async findDue(at: Date): Promise<(PendingDigest & { timeZone: string })[]> {
+        // isDigestDue in SQL. Timezones Postgres doesn't know fall back to
+        // the default, as they do in UserSettings.
+        const res = await this.pool.query(
+            `SELECT DISTINCT q.user_id
+       FROM notification_digest_queue q
+       LEFT JOIN user_notification_settings s ON s.user_id = q.user_id
+       LEFT JOIN pg_timezone_names tz ON tz.name = s.timezone
+       CROSS JOIN LATERAL (
+         SELECT $1::timestamptz AT TIME ZONE COALESCE(tz.name, $2) AS local_time
+       ) l
+       WHERE q.sent_at IS NULL AND q.created_at < $1
+         AND EXTRACT(HOUR FROM l.local_time) = $3
+         AND EXTRACT(MINUTE FROM l.local_time) < 30`,
+            [at, DEFAULT_TIMEZONE, DIGEST_LOCAL_HOUR],
+        );
+        const userIds: string[] = res.rows.map((row) => row.user_id);
+        if (!userIds.length) return [];
+
+        const pending = await this.findPending(at, userIds);
+        const settings = await this.userSettings.getMany(userIds);
+        return pending.map((digest) => ({
+            ...digest,
+            timeZone: settings.get(digest.userId)!.timeZone,
+        }));
+    }
+
+    /**
+     * Queue an item for the user's next digest. Returns false if an item
+     * with the same idempotency key is already queued.
+     */
+    async enqueue(
+        userId: string,
+        item: DigestItem,
+        context: NotificationContext,
+        idempotencyKey: string,
+    ): Promise<boolean> {
+        const res = await this.pool.query(
+            `INSERT INTO notification_digest_queue
+         (user_id, kind, idempotency_key, course_run_id, title, summary)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (idempotency_key) DO NOTHING`,
+            [
+                userId,
+                context.kind,
+                idempotencyKey,
+                context.runId ?? null,
+                item.title,
+                item.summary.toString(),
+            ],
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    /**
+     * Unsent items queued before the given time, grouped per user and then
+     * per course run. Items not tied to a run come last. Only the given
+     * users' items when `userIds` is set.
+     */
+    async findPending(
+        before: Date,
+        userIds?: string[],
+    ): Promise<PendingDigest[]> {
+        const res = await this.pool.query(
+            `SELECT q.id, q.user_id, q.course_run_id, q.title, q.summary,
+              cr.name AS run_name, c.name AS course_name
+       FROM notification_digest_queue q
+       LEFT JOIN "course-runs" cr ON cr.id = q.course_run_id
+       LEFT JOIN courses c ON c.id = cr.course_id
+       WHERE q.sent_at IS NULL AND q.created_at < $1
+         AND ($2::text[] IS NULL OR q.user_id = ANY($2))
+       ORDER BY q.user_id, q.course_run_id NULLS LAST, q.created_at`,
+            [before, userIds ?? null],
+        );
+
+        const digests = new Map<string, PendingDigest>();
+        for (const row of res.rows) {
+            let digest = digests.get(row.user_id);
+            if (!digest) {
+                digest = { userId: row.user_id, itemIds: [], sections: [] };
+                digests.set(row.user_id, digest);
+            }
+
+            const sectionTitle = row.run_name
+                ? `${row.run_name}${row.course_name ? ` (${row.course_name})` : ''}`
+                : null;
+            let section = digest.sections[digest.sections.length - 1];
+            if (!section || section.title !== sectionTitle) {
+                section = { title: sectionTitle, items: [] };
+                digest.sections.push(section);
+            }
+
+            // Summaries were rendered with `markup` before they were queued.
+            section.items.push({
+                title: row.title,
+                summary: trustedHtml(row.summary),
+            });
+            digest.itemIds.push(Number(row.id));
+        }
+        return Array.from(digests.values());
+    }
+
+    async markSent(itemIds: number[], sentAt: Date): Promise<void> {
+        if (!itemIds.length) return;
+        await this.pool.query(
+            `UPDATE notification_digest_queue SET sent_at = $1 WHERE id = ANY($2)`,
+            [sentAt, itemIds],
+        );
+    }
+}
@@ -0,0 +1,129 @@
+import { Pool } from 'pg';
+import {
+    TrackingEvent,
+    TrackingToken,
+    UNTRACKED_KINDS,
+} from './email-tracking';
+import { NotificationKind } from './notification-types';
+
+export interface EngagementQuery {
+    // Report one row per notification kind or per course run.
+    by: 'kind' | 'run';
+    kind?: NotificationKind;
+    runId?: number;
+    from?: Date;
+    to?: Date;
+}
+
+export interface EngagementRate {
+    kind?: NotificationKind;
+    runId?: number | null;
+    sent: number;
+    // Emails opened at least once. A click counts as an open, since many
+    // mail clients block the pixel.
+    opened: number;
+    clicked: number;
+    openRate: number;
+    clickRate: number;
+}
+
+const rate = (count: number, sent: number) =>
+    sent ? Math.round((count / sent) * 1000) / 1000 : 0;
+
+/**
+ * Email opens and clicks, backed by email_tracking_events (see
+ * migrations/), and the rates they add up to.
+ */
+export class EmailEngagement {
+    private pool: Pool;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    /**
+     * Log an open or click against the email's delivery record. Like the
+     * delivery log, failing to write it is logged and swallowed: the
+     * recipient still gets their pixel or redirect.
+     */
+    async record(event: TrackingEvent, token: TrackingToken): Promise<void> {
+        try {
+            await this.pool.query(
+                `INSERT INTO email_tracking_events
+           (delivery_id, idempotency_key, user_id, kind, course_run_id,
+            event, url)
+         VALUES (
+           (SELECT id FROM notification_deliveries
+             WHERE idempotency_key = $1 AND channel = 'email'
+               AND status = 'sent'
+             ORDER BY created_at DESC
+             LIMIT 1),
+           $1, $2, $3, $4, $5, $6
+         )`,
+                [
+                    token.idempotencyKey,
+                    token.userId,
+                    token.kind,
+                    token.runId ?? null,
+                    event,
+                    event === 'click' ? (token.url ?? null) : null,
+                ],
+            );
+        } catch (error) {
+            console.error(
+                `Failed to record email ${event} for userId: ${token.userId}`,
+                error,
+            );
+        }
+    }
+
+    /**
+     * Open and click rates of emails sent in the window, per kind or per
+     * course run. Kinds that are never tracked are left out.
+     */
+    async rates(query: EngagementQuery): Promise<EngagementRate[]> {
+        const group = query.by === 'kind' ? 'd.kind' : 'd.course_run_id';
+        const res = await this.pool.query(
+            `SELECT ${group} AS key,
+              COUNT(DISTINCT d.idempotency_key) AS sent,
+              COUNT(DISTINCT e.idempotency_key) AS opened,
+              COUNT(DISTINCT e.idempotency_key)
+                FILTER (WHERE e.event = 'click') AS clicked
+       FROM notification_deliveries d
+       LEFT JOIN email_tracking_events e
+         ON e.idempotency_key = d.idempotency_key
+       WHERE d.channel = 'email' AND d.status = 'sent'
+         AND d.idempotency_key IS NOT NULL
+         AND d.kind <> ALL($1::text[])
+         AND ($2::text IS NULL OR d.kind = $2)
+         AND ($3::int IS NULL OR d.course_run_id = $3)
+         AND ($4::timestamptz IS NULL OR d.created_at >= $4)
+         AND ($5::timestamptz IS NULL OR d.created_at < $5)
+       GROUP BY ${group}
+       ORDER BY sent DESC`,
+            [
+                UNTRACKED_KINDS,
+                query.kind ?? null,
+                query.runId ?? null,
+                query.from ?? null,
+                query.to ?? null,
+            ],
+        );
+
+        return res.rows.map((row: any) => {
+            const sent = Number(row.sent);
+            const opened = Number(row.opened);
+            const clicked = Number(row.clicked);
+            return {
+                ...(query.by === 'kind'
+                    ? { kind: row.key }
+                    : { runId: row.key }),
+                sent,
+                opened,
+                clicked,
+                openRate: rate(opened, sent),
+                clickRate: rate(clicked, sent),
+            };
+        });
+    }
+}
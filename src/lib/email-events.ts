@@ -0,0 +1,99 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SUPPRESSION_REASONS = ['hard_bounce', 'complaint'] as const;
+
+export type SuppressionReason = (typeof SUPPRESSION_REASONS)[number];
+
+// A bounce or complaint that should stop us mailing an address.
+export interface SuppressionEvent {
+    address: string;
+    reason: SuppressionReason;
+    // What the receiving server or mailbox provider said, for admins.
+    detail?: string;
+}
+
+// ZeptoMail event names we act on. Soft bounces are retried by ZeptoMail
+// itself and don't suppress the address.
+const ZEPTO_EVENT_REASONS: Record<string, SuppressionReason> = {
+    hardbounce: 'hard_bounce',
+    feedback_loop: 'complaint',
+};
+
+// How far a webhook's `ts` may be from our clock before it is treated as a
+// replay of a captured request.
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Checks ZeptoMail's `producer-signature` header, e.g.
+ * `ts=1700000000000;s=<base64>;s-algorithm=HmacSHA256`: an HMAC-SHA256 of
+ * the raw request body keyed with the webhook's secret, sent within five
+ * minutes of `now`.
+ */
+export function verifyZeptoMailSignature(
+    rawBody: Buffer,
+    header: string | undefined,
+    secret: string,
+    now: Date = new Date(),
+): boolean {
+    if (!header) return false;
+    const parts = Object.fromEntries(
+        header.split(';').map((part) => {
+            const [key, ...value] = part.trim().split('=');
+            return [key, value.join('=')];
+        }),
+    );
+    if (!parts.s || (parts['s-algorithm'] ?? 'HmacSHA256') !== 'HmacSHA256') {
+        return false;
+    }
+    const sentAt = Number(parts.ts);
+    if (
+        !parts.ts ||
+        !Number.isFinite(sentAt) ||
+        Math.abs(now.getTime() - sentAt) > SIGNATURE_TOLERANCE_MS
+    ) {
+        return false;
+    }
+
+    const expected = createHmac('sha256', secret).update(rawBody).digest();
+    const given = Buffer.from(parts.s, 'base64');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+const asArray = (value: unknown): any[] =>
+    Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+/**
+ * The hard bounces and spam complaints in a ZeptoMail webhook body. Other
+ * events (soft bounces, opens, clicks) are ignored.
+ */
+export function parseZeptoMailEvents(body: any): SuppressionEvent[] {
+    const events: SuppressionEvent[] = [];
+    const names = asArray(body?.event_name).map(String);
+
+    for (const message of asArray(body?.event_message)) {
+        for (const data of asArray(message?.event_data)) {
+            const reason =
+                ZEPTO_EVENT_REASONS[String(data?.object ?? names[0])];
+            if (!reason) continue;
+
+            for (const detail of asArray(data?.details)) {
+                const address =
+                    detail?.bounced_recipient ??
+                    detail?.email_address ??
+                    message?.email_info?.to?.[0]?.email_address?.address;
+                if (typeof address !== 'string' || !address.includes('@')) {
+                    continue;
+                }
+                events.push({
+                    address: address.trim().toLowerCase(),
+                    reason,
+                    detail:
+                        [detail?.reason, detail?.diagnostic_message]
+                            .filter(Boolean)
+                            .join(': ') || undefined,
+                });
+            }
+        }
+    }
+    return events;
+}
@@ -0,0 +1,138 @@
+import type {
+    EmailSendResult,
+    EmailTransport,
+    OutgoingEmail,
+} from './email-transport';
+import { positiveIntFromEnv, Throttle } from './throttle';
+
+export interface EmailPipelineOptions {
+    // Provider calls in flight at once.
+    concurrency: number;
+    // Provider calls started per second.
+    perSecond: number;
+    // Most recipients in one batch call.
+    batchSize: number;
+    // How long an email waits for others with the same content.
+    batchWindowMs: number;
+}
+
+/**
+ * Pipeline settings from EMAIL_CONCURRENCY, EMAIL_RATE_LIMIT,
+ * EMAIL_BATCH_SIZE and EMAIL_BATCH_WINDOW_MS.
+ */
+export function emailPipelineOptions(): EmailPipelineOptions {
+    return {
+        concurrency: positiveIntFromEnv('EMAIL_CONCURRENCY', 5),
+        perSecond: positiveIntFromEnv('EMAIL_RATE_LIMIT', 10),
+        batchSize: positiveIntFromEnv('EMAIL_BATCH_SIZE', 50),
+        batchWindowMs: positiveIntFromEnv('EMAIL_BATCH_WINDOW_MS', 200),
+    };
+}
+
+interface PendingEmail {
+    email: OutgoingEmail;
+    resolve: (result: EmailSendResult) => void;
+    reject: (error: unknown) => void;
+}
+
+// Emails that only differ in their recipient and merge fields can share a
+// batch call.
+const contentKey = (email: OutgoingEmail) =>
+    JSON.stringify([
+        email.from.address,
+        email.from.name,
+        email.subject,
+        email.html,
+        email.text,
+    ]);
+
+/**
+ * Sends emails through a transport without flooding it: provider calls are
+ * throttled to the configured concurrency and rate, and emails sent within
+ * the batch window with the same content go out in one batch call when the
+ * transport supports it. A rejected batch is resent one email at a time, so
+ * each caller gets its own result or error.
+ */
+export class EmailPipeline {
+    private transport: EmailTransport;
+    private options: EmailPipelineOptions;
+    private throttle: Throttle;
+    private pending: PendingEmail[] = [];
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        transport: EmailTransport,
+        options: EmailPipelineOptions = emailPipelineOptions(),
+    ) {
+        this.transport = transport;
+        this.options = options;
+        this.throttle = new Throttle(options);
+    }
+
+    send(email: OutgoingEmail): Promise<EmailSendResult> {
+        return new Promise((resolve, reject) => {
+            this.pending.push({ email, resolve, reject });
+            if (this.pending.length >= this.options.batchSize) {
+                this.flush();
+            } else if (!this.timer) {
+                this.timer = setTimeout(
+                    () => this.flush(),
+                    this.options.batchWindowMs,
+                );
+            }
+        });
+    }
+
+    private flush() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        const groups = new Map<string, PendingEmail[]>();
+        for (const item of this.pending.splice(0)) {
+            const key = contentKey(item.email);
+            groups.set(key, [...(groups.get(key) ?? []), item]);
+        }
+        for (const group of groups.values()) {
+            void this.sendGroup(group);
+        }
+    }
+
+    private async sendGroup(group: PendingEmail[]) {
+        if (group.length > 1 && this.transport.sendBatch) {
+            try {
+                const result = await this.throttle.run(() =>
+                    this.transport.sendBatch!({
+                        ...group[0].email,
+                        to: group.map((item) => item.email.to),
+                        mergeFields: group.some(
+                            (item) => item.email.mergeFields,
+                        )
+                            ? group.map((item) => item.email.mergeFields ?? {})
+                            : undefined,
+                    }),
+                );
+                group.forEach((item) => item.resolve(result));
+                return;
+            } catch (error) {
+                // One bad address fails the whole batch. Send one by one so
+                // each recipient gets their own result and error.
+                console.warn(
+                    `Batch of ${group.length} emails failed, sending them one by one`,
+                    error,
+                );
+            }
+        }
+        await Promise.all(group.map((item) => this.sendOne(item)));
+    }
+
+    private async sendOne(item: PendingEmail) {
+        try {
+            item.resolve(
+                await this.throttle.run(() => this.transport.send(item.email)),
+            );
+        } catch (error) {
+            item.reject(error);
+        }
+    }
+}
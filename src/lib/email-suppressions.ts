@@ -0,0 +1,100 @@
+import { Pool } from 'pg';
+import { SuppressionEvent, SuppressionReason } from './email-events';
+
+export interface EmailSuppression {
+    address: string;
+    userId: string | null;
+    reason: SuppressionReason;
+    detail: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+function toEmailSuppression(row: any): EmailSuppression {
+    return {
+        address: row.address,
+        userId: row.user_id,
+        reason: row.reason,
+        detail: row.detail,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+/**
+ * Addresses that bounced hard or complained, backed by the
+ * email_suppressions table (see migrations/). NotificationService doesn't
+ * email them.
+ */
+export class EmailSuppressions {
+    private pool: Pool;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    /**
+     * Suppress an address, linking it to the user it belongs to. A later
+     * event for the same address replaces the reason, except that a hard
+     * bounce is kept: a complaint about a dead address must not let
+     * password resets through to it again.
+     */
+    async add(event: SuppressionEvent): Promise<void> {
+        await this.pool.query(
+            `INSERT INTO email_suppressions (address, user_id, reason, detail)
+       VALUES (
+         LOWER($1),
+         (SELECT id FROM users WHERE LOWER(email) = LOWER($1) LIMIT 1),
+         $2, $3
+       )
+       ON CONFLICT (address) DO UPDATE
+       SET user_id = EXCLUDED.user_id,
+           reason = CASE WHEN email_suppressions.reason = 'hard_bounce'
+                         THEN email_suppressions.reason
+                         ELSE EXCLUDED.reason END,
+           detail = CASE WHEN email_suppressions.reason = 'hard_bounce'
+                         THEN email_suppressions.detail
+                         ELSE EXCLUDED.detail END,
+           updated_at = NOW()`,
+            [event.address, event.reason, event.detail ?? null],
+        );
+    }
+
+    async get(address: string): Promise<EmailSuppression | null> {
+        const res = await this.pool.query(
+            `SELECT * FROM email_suppressions WHERE address = LOWER($1)`,
+            [address],
+        );
+        return res.rows[0] ? toEmailSuppression(res.rows[0]) : null;
+    }
+
+    /**
+     * Suppressions by user or address, newest first, for admins.
+     */
+    async find(query: {
+        userId?: string;
+        address?: string;
+    }): Promise<EmailSuppression[]> {
+        const res = await this.pool.query(
+            `SELECT * FROM email_suppressions
+       WHERE ($1::text IS NULL OR user_id = $1)
+         AND ($2::text IS NULL OR address = LOWER($2))
+       ORDER BY updated_at DESC
+       LIMIT 100`,
+            [query.userId ?? null, query.address ?? null],
+        );
+        return res.rows.map(toEmailSuppression);
+    }
+
+    /**
+     * Lift a suppression, e.g. once the user confirms their mailbox works.
+     * Returns whether the address was suppressed.
+     */
+    async remove(address: string): Promise<boolean> {
+        const res = await this.pool.query(
+            `DELETE FROM email_suppressions WHERE address = LOWER($1)`,
+            [address],
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+}
@@ -1,21 +1,66 @@
+import { Branding, defaultBranding } from './branding';
+import { appUrl, deepLinks } from './deep-links';
+import { DigestSection } from './digest';
+import { EmailTracking } from './email-tracking';
+import { htmlToText, markup, SafeHtml, safeUrl } from './html';
+import { DEFAULT_LOCALE, Locale } from './i18n';
+
 interface EmailTemplateParams {
     heading: string;
     subheading: string;
-    body: string;
+    body: SafeHtml;
     ctaText?: string;
     ctaUrl?: string;
+    locale?: Locale;
+    branding?: Branding;
+    // Adds an open pixel and sends the CTA through the click redirect.
+    tracking?: EmailTracking;
+}
+
+interface LayoutMessages {
+    ctaText: string;
+    supportLine: (supportEmail: string, color: string) => SafeHtml;
+    regards: string;
 }
 
+const LAYOUT_MESSAGES: Record<Locale, LayoutMessages> = {
+    en: {
+        ctaText: 'Go to LearnX',
+        supportLine: (email, color) =>
+            markup`For any assistance, contact us at <a href="mailto:${email}" style="color: ${color};">${email}</a>.`,
+        regards: 'Regards,',
+    },
+    hi: {
+        ctaText: 'LearnX पर जाएँ',
+        supportLine: (email, color) =>
+            markup`किसी भी सहायता के लिए हमें <a href="mailto:${email}" style="color: ${color};">${email}</a> पर संपर्क करें।`,
+        regards: 'सादर,',
+    },
+    kn: {
+        ctaText: 'LearnX ಗೆ ಹೋಗಿ',
+        supportLine: (email, color) =>
+            markup`ಯಾವುದೇ ಸಹಾಯಕ್ಕಾಗಿ <a href="mailto:${email}" style="color: ${color};">${email}</a> ಅನ್ನು ಸಂಪರ್ಕಿಸಿ.`,
+        regards: 'ವಂದನೆಗಳೊಂದಿಗೆ,',
+    },
+};
+
 export function generateEmailTemplate({
     heading,
     subheading,
     body,
-    ctaText = 'Go to LearnX',
-    ctaUrl = 'https://learnx.atriauniversity.in',
+    ctaText,
+    ctaUrl,
+    locale = DEFAULT_LOCALE,
+    branding = defaultBranding(),
+    tracking,
 }: EmailTemplateParams): string {
-    return `
+    const layout = LAYOUT_MESSAGES[locale];
+    const buttonUrl = safeUrl(
+        ctaUrl ?? appUrl(deepLinks.dashboard(), branding.appUrl),
+    );
+    return markup`
 <!DOCTYPE html>
-<html>
+<html lang="${locale}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -65,7 +110,7 @@ export function generateEmailTemplate({
                                         <table cellpadding="0" cellspacing="0" style="border-collapse: collapse;">
                                             <tr>
                                                 <td>
-                                                    <img src="https://bucket.xcelerator.co.in/maskable-icon-192.png"
+                                                    <img src="${safeUrl(branding.iconUrl)}"
                                                          alt="LearnX Logo"
                                                          class="logo-icon"
                                                          style="display: inline-block; width: 32px; height: 32px; margin-right: 8px;">
@@ -79,10 +124,10 @@ export function generateEmailTemplate({
                                         </table>
                                     </td>
 
-                                    <!-- Right side: AU Logo -->
+                                    <!-- Right side: institution logo -->
                                     <td class="logo-right" style="text-align: right; vertical-align: middle; width: 50%;">
-                                        <img src="https://assets.xcelerator.co.in/AUFull.png"
-                                             alt="AU Logo"
+                                        <img src="${safeUrl(branding.logoUrl)}"
+                                             alt="${branding.name} Logo"
                                              class="au-logo"
                                              style="display: inline-block; width: 100px; height: auto; max-width: 100%;">
                                     </td>
@@ -93,7 +138,7 @@ export function generateEmailTemplate({
 
                     <!-- Header Section with Heading and Subheading -->
                     <tr>
-                        <td style="background-color: #625A96; color: #ffffff; text-align: left; padding: 40px;">
+                        <td style="background-color: ${branding.primaryColor}; color: #ffffff; text-align: left; padding: 40px;">
                             <h1 style="margin: 0; font-size: 30px; font-weight: bold;">${heading}</h1>
                             <p style="margin: 15px 0 0; font-size: 20px;">${subheading}</p>
                         </td>
@@ -105,17 +150,17 @@ export function generateEmailTemplate({
                             ${body}
                             
                             <div style="text-align: left; margin: 30px 0;">
-                                <a href="${ctaUrl}" 
-                                   style="display: inline-block; padding: 15px 30px; background-color: #625A96; color: #ffffff; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 16px;">
-                                    ${ctaText}
+                                <a href="${tracking ? tracking.clickUrl(buttonUrl) : buttonUrl}" 
+                                   style="display: inline-block; padding: 15px 30px; background-color: ${branding.primaryColor}; color: #ffffff; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 16px;">
+                                    ${ctaText ?? layout.ctaText}
                                 </a>
                             </div>
                             
                             <p style="margin-top: 30px; margin-bottom: 20px;">
-                                For any assistance, contact us at <a href="mailto:support@xcelerator.co.in" style="color: #625A96;">support@xcelerator.co.in</a>.
+                                ${layout.supportLine(branding.supportEmail, branding.primaryColor)}
                             </p>
                             
-                            <p style="font-weight: bold; margin-top: 30px;">Regards,<br>Team Xcelerator</p>
+                            <p style="font-weight: bold; margin-top: 30px;">${layout.regards}<br>${branding.signOff}</p>
                         </td>
                     </tr>
                     
@@ -123,9 +168,62 @@ export function generateEmailTemplate({
             </td>
         </tr>
     </table>
+    ${tracking ? markup`<img src="${tracking.pixelUrl}" width="1" height="1" alt="" style="display: block; border: 0;">` : ''}
 </body>
 </html>
-  `.trim();
+  `
+        .toString()
+        .trim();
+}
+
+/**
+ * Plain-text counterpart of generateEmailTemplate, used as the text/plain
+ * part of every email.
+ */
+export function generateEmailText({
+    heading,
+    subheading,
+    body,
+    ctaText,
+    ctaUrl,
+    locale = DEFAULT_LOCALE,
+    branding = defaultBranding(),
+}: EmailTemplateParams): string {
+    const layout = LAYOUT_MESSAGES[locale];
+    const buttonUrl = ctaUrl ?? appUrl(deepLinks.dashboard(), branding.appUrl);
+    return [
+        heading,
+        subheading,
+        htmlToText(body.toString()),
+        `${ctaText ?? layout.ctaText}: ${safeUrl(buttonUrl)}`,
+        htmlToText(
+            layout
+                .supportLine(branding.supportEmail, branding.primaryColor)
+                .toString(),
+        ),
+        `${layout.regards}\n${branding.signOff}`,
+    ].join('\n\n');
+}
+
+/**
+ * The per-course-run sections of a daily digest. Sections without a title
+ * hold items not tied to a run and are headed `otherUpdatesTitle`.
+ */
+export function digestSectionsMarkup(
+    sections: DigestSection[],
+    otherUpdatesTitle: string,
+    color = defaultBranding().primaryColor,
+): SafeHtml {
+    return markup`${sections.map(
+        (section) => markup`
+      <p style="margin-bottom: 10px; font-weight: bold; color: ${color};">${section.title ?? otherUpdatesTitle}</p>
+      <ul style="margin-bottom: 15px; padding-left: 20px;">
+        ${section.items.map(
+            (item) =>
+                markup`<li style="margin-bottom: 8px;"><strong>${item.title}</strong><br>${item.summary}</li>`,
+        )}
+      </ul>`,
+    )}`;
 }
 
 // Email template configurations based on email-template.md
@@ -134,7 +232,7 @@ export const emailTemplates = {
         subject: 'New Activity Available in Your Course Run',
         heading: 'A New Activity Awaits You',
         subheading: 'Stay on track and keep learning.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">A new activity <strong>${activityName}</strong> has been added to <strong>${runName}</strong>.</p>
       <p>Visit your dashboard to check it out and continue your learning journey.</p>
@@ -145,7 +243,7 @@ export const emailTemplates = {
         subject: "You've Been Added to a Group",
         heading: 'Group Access Granted',
         subheading: 'Stay organized with your course activities.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">You've been added to the group <strong>${groupName}</strong>.</p>
       <p>Visit your dashboard to view group details.</p>
@@ -160,7 +258,7 @@ export const emailTemplates = {
         subject: 'Upcoming Activity Deadline',
         heading: 'Your Activity is Due Soon',
         subheading: 'Submit before the deadline to stay on track.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">Your activity <strong>${activityName}</strong> for <strong>${runName}</strong> is due on <strong>${deadline}</strong>.</p>
       <p>Please ensure you submit it before the deadline.</p>
@@ -171,7 +269,7 @@ export const emailTemplates = {
         subject: 'New Document Available in Your Course',
         heading: 'A New Resource Has Been Shared',
         subheading: 'Access the latest material for your course.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">A new document <strong>${documentName}</strong> has been added to <strong>${courseName}</strong>.</p>
       <p>Visit your dashboard to review it.</p>
@@ -186,7 +284,7 @@ export const emailTemplates = {
         subject: 'Upcoming Deadline in Your Course Run',
         heading: 'Activity Deadline Approaching',
         subheading: 'Monitor learner progress closely.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">The activity <strong>${activityName}</strong> in <strong>${runName}</strong> is due in 30 minutes (at <strong>${deadline}</strong>).</p>
       <p>Please ensure learners are on track.</p>
@@ -201,7 +299,7 @@ export const emailTemplates = {
         subject: 'Redo Enabled for Your Activity',
         heading: 'You Can Redo Your Activity',
         subheading: 'A new chance to complete your work.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 10px;">Redo has been enabled for <strong>${activityName}</strong>.</p>
       <p style="margin-bottom: 15px;">Your new submission deadline is <strong>${deadline}</strong>.</p>
@@ -213,7 +311,7 @@ export const emailTemplates = {
         subject: 'Your Score is Now Available',
         heading: 'Score Published for Your Activity',
         subheading: 'Review your performance in the course.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">Your score for <strong>${activityName}</strong> in <strong>${runName}</strong> has been published.</p>
       <p style="margin-bottom: 15px; font-weight: bold;">How to check your score:</p>
@@ -230,7 +328,7 @@ export const emailTemplates = {
         subject: 'Missed Deadline Notification',
         heading: 'You Missed a Deadline',
         subheading: 'Please contact your instructor for next steps.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">You missed the deadline for <strong>${activityName}</strong> in <strong>${runName}</strong>.</p>
       <p>Please reach out to your instructor for guidance on how to proceed.</p>
@@ -246,7 +344,7 @@ export const emailTemplates = {
         subject: 'Post-Deadline Summary for Your Course Run',
         heading: 'Activity Deadline Summary',
         subheading: 'Review student submission status.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">The deadline for <strong>${activityName}</strong> in <strong>${runName}</strong> has passed.</p>
       <p style="margin-bottom: 15px;"><strong>Submission Summary:</strong></p>
@@ -266,24 +364,44 @@ export const emailTemplates = {
         subject: 'Course Run Ending Soon - Action Required',
         heading: 'Time to Finalize Your Course Run',
         subheading: 'Ensure all grading is completed.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">The course run <strong>${runName}</strong> for <strong>${courseName}</strong> is ending on <strong>${endDate}</strong>.</p>
       <p>Please ensure all activities are graded and finalized before the end date.</p>
     `,
     }),
 
-    passwordResetEmail: (resetUrl: string, expiresInMinutes: number) => ({
+    passwordResetEmail: (
+        resetUrl: string,
+        expiresInMinutes: number,
+        linkColor = defaultBranding().primaryColor,
+    ) => ({
         subject: 'Reset Your LearnX Password',
         heading: 'Reset Password',
         subheading: 'Use the secure link below to update your password.',
-        body: `
+        body: markup`
       <p style="margin-bottom: 15px;">Hello,</p>
       <p style="margin-bottom: 15px;">We received a request to reset your LearnX password.</p>
       <p style="margin-bottom: 15px;">This link is valid for <strong>${expiresInMinutes} minutes</strong>.</p>
       <p style="margin-bottom: 10px;">If the button does not work, use this link:</p>
-      <p style="margin-bottom: 15px; word-break: break-all;"><a href="${resetUrl}" style="color: #625A96;">${resetUrl}</a></p>
+      <p style="margin-bottom: 15px; word-break: break-all;"><a href="${safeUrl(resetUrl)}" style="color: ${linkColor};">${resetUrl}</a></p>
       <p>If you did not request this change, you can safely ignore this email.</p>
     `,
     }),
+
+    dailyDigest: (
+        date: string,
+        sections: DigestSection[],
+        color = defaultBranding().primaryColor,
+    ) => ({
+        subject: `Your LearnX Digest for ${date}`,
+        heading: 'Your Daily Digest',
+        subheading: "Here's what's new in your courses.",
+        body: markup`
+      <p style="margin-bottom: 15px;">Hello,</p>
+      <p style="margin-bottom: 15px;">Here are your updates for <strong>${date}</strong>.</p>
+      ${digestSectionsMarkup(sections, 'Other updates', color)}
+      <p>Visit your dashboard for details.</p>
+    `,
+    }),
 };
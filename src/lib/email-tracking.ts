@@ -0,0 +1,137 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NotificationKind } from './notification-types';
+
+export const TRACKING_EVENTS = ['open', 'click'] as const;
+
+export type TrackingEvent = (typeof TRACKING_EVENTS)[number];
+
+// The email a tracking link belongs to. The idempotency key ties an open or
+// click to its delivery record.
+export interface TrackedEmail {
+    idempotencyKey: string;
+    userId: string;
+    kind: NotificationKind;
+    runId?: number;
+}
+
+export interface TrackingToken extends TrackedEmail {
+    // Where a click redirects to; signed so the endpoint can't be used to
+    // redirect anywhere else.
+    url?: string;
+}
+
+// Tracking URLs for one email, passed to generateEmailTemplate.
+export interface EmailTracking {
+    pixelUrl: string;
+    clickUrl: (url: string) => string;
+}
+
+export interface TrackingSettings {
+    // Public base URL of the notification API, e.g. https://notify.learnx.in
+    baseUrl: string;
+    secret: string;
+}
+
+// Password reset links carry a secret, so they're never routed through the
+// redirect or stored with a click.
+export const UNTRACKED_KINDS: NotificationKind[] = ['password_reset'];
+
+/**
+ * Settings from EMAIL_TRACKING_URL and EMAIL_TRACKING_SECRET, or null when
+ * tracking is off (either is unset).
+ */
+export function trackingSettings(): TrackingSettings | null {
+    const baseUrl = process.env.EMAIL_TRACKING_URL;
+    const secret = process.env.EMAIL_TRACKING_SECRET;
+    return baseUrl && secret
+        ? { baseUrl: baseUrl.replace(/\/+$/, ''), secret }
+        : null;
+}
+
+const sign = (data: string, secret: string) =>
+    createHmac('sha256', secret).update(data).digest('base64url');
+
+export function signTrackingToken(
+    token: TrackingToken,
+    secret: string,
+): string {
+    const data = Buffer.from(JSON.stringify(token)).toString('base64url');
+    return `${data}.${sign(data, secret)}`;
+}
+
+/**
+ * The token's contents, or null if it wasn't signed with `secret` or is
+ * malformed.
+ */
+export function readTrackingToken(
+    token: string,
+    secret: string,
+): TrackingToken | null {
+    const [data, signature, ...rest] = token.split('.');
+    if (!data || !signature || rest.length) return null;
+
+    const expected = Buffer.from(sign(data, secret));
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        return null;
+    }
+    try {
+        const parsed = JSON.parse(Buffer.from(data, 'base64url').toString());
+        return typeof parsed?.idempotencyKey === 'string' &&
+            typeof parsed?.userId === 'string' &&
+            typeof parsed?.kind === 'string'
+            ? parsed
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Open pixel and click redirect URLs for an email, or undefined when
+ * tracking is off or the kind is never tracked.
+ */
+export function emailTracking(
+    email: TrackedEmail,
+    settings: TrackingSettings | null = trackingSettings(),
+): EmailTracking | undefined {
+    if (!settings || UNTRACKED_KINDS.includes(email.kind)) return undefined;
+    const { baseUrl, secret } = settings;
+    return {
+        pixelUrl: `${baseUrl}/email/open/${signTrackingToken(email, secret)}`,
+        clickUrl: (url) =>
+            `${baseUrl}/email/click/${signTrackingToken({ ...email, url }, secret)}`,
+    };
+}
+
+export interface TrackingMergeFields {
+    // Renders {{name}} placeholders in place of the tracking URLs.
+    tracking: EmailTracking;
+    // The URLs for those placeholders, filled in as the email is rendered.
+    mergeFields: Record<string, string>;
+}
+
+/**
+ * Tracking that renders placeholders instead of URLs. Tracking URLs differ
+ * per recipient, so with the URLs moved into merge fields, emails that only
+ * differ in tracking render the same and can be sent in one batch.
+ */
+export function trackingMergeFields(
+    tracking: EmailTracking,
+): TrackingMergeFields {
+    const mergeFields: Record<string, string> = {
+        tracking_open: tracking.pixelUrl,
+    };
+    let clicks = 0;
+    return {
+        mergeFields,
+        tracking: {
+            pixelUrl: '{{tracking_open}}',
+            clickUrl: (url) => {
+                const name = `tracking_click_${++clicks}`;
+                mergeFields[name] = tracking.clickUrl(url);
+                return `{{${name}}}`;
+            },
+        },
+    };
+}
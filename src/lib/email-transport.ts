@@ -0,0 +1,252 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { SendMailClient } from 'zeptomail';
+import { DeliveryError } from './retry';
+
+export interface OutgoingEmail {
+    from: { address: string; name: string };
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    // Per-recipient values for {{name}} placeholders in html and text.
+    mergeFields?: Record<string, string>;
+}
+
+// One email sent separately to each address in `to`. mergeFields[i] fills
+// the placeholders for to[i].
+export interface BatchEmail extends Omit<OutgoingEmail, 'to' | 'mergeFields'> {
+    to: string[];
+    mergeFields?: Record<string, string>[];
+}
+
+export interface EmailSendResult {
+    // Provider's id for the message, stored on the delivery log row.
+    messageId?: string;
+}
+
+export interface EmailTransport {
+    name: string;
+    send(email: OutgoingEmail): Promise<EmailSendResult>;
+    // Set by transports that can send one email to many recipients in a
+    // single call.
+    sendBatch?(email: BatchEmail): Promise<EmailSendResult>;
+}
+
+export type EmailTransportName = 'zeptomail' | 'smtp' | 'file';
+
+/**
+ * The email with its {{name}} placeholders replaced by its merge fields.
+ * Placeholders without a field are left as they are.
+ */
+export function applyMergeFields(email: OutgoingEmail): OutgoingEmail {
+    const { mergeFields, ...rest } = email;
+    if (!mergeFields) return rest;
+    const merge = (content: string) =>
+        content.replace(
+            /\{\{(\w+)\}\}/g,
+            (placeholder, name: string) => mergeFields[name] ?? placeholder,
+        );
+    return { ...rest, html: merge(rest.html), text: merge(rest.text) };
+}
+
+/**
+ * Sends through the ZeptoMail API. Used in production. Batches go through
+ * the batch endpoint, which takes up to 500 recipients.
+ */
+export class ZeptoMailTransport implements EmailTransport {
+    name = 'zeptomail';
+    private client: SendMailClient;
+
+    constructor() {
+        const ZEPTO_URL =
+            process.env.ZEPTO_URL || 'https://api.zeptomail.in/v1.1/email';
+        const ZEPTO_TOKEN = process.env.ZEPTO_TOKEN;
+
+        if (!ZEPTO_TOKEN) {
+            console.error('❌ ZEPTO_TOKEN environment variable is not set!');
+            throw new DeliveryError(
+                'ZEPTO_TOKEN is required for email notifications',
+                { permanent: true },
+            );
+        }
+
+        this.client = new SendMailClient({
+            url: ZEPTO_URL,
+            token: ZEPTO_TOKEN,
+        });
+    }
+
+    async send(outgoing: OutgoingEmail): Promise<EmailSendResult> {
+        const email = applyMergeFields(outgoing);
+        const result = await this.client
+            .sendMail({
+                from: email.from,
+                to: [
+                    {
+                        email_address: {
+                            address: email.to,
+                            name: email.to,
+                        },
+                    },
+                ],
+                subject: email.subject,
+                textbody: email.text,
+                htmlbody: email.html,
+            })
+            .catch(throwZeptoMailError);
+        return { messageId: result?.request_id };
+    }
+
+    async sendBatch(email: BatchEmail): Promise<EmailSendResult> {
+        const result = await this.client
+            .sendBatchMail({
+                from: email.from,
+                // ZeptoMail fills in {{name}} placeholders from merge_info.
+                to: email.to.map((address, i) => ({
+                    email_address: { address, name: address },
+                    merge_info: email.mergeFields?.[i],
+                })),
+                subject: email.subject,
+                textbody: email.text,
+                htmlbody: email.html,
+            })
+            .catch(throwZeptoMailError);
+        return { messageId: result?.request_id };
+    }
+}
+
+// Fields ZeptoMail names when it rejects a recipient address.
+const ZEPTO_ADDRESS_FIELDS = ['to', 'address', 'email_address'];
+
+/**
+ * ZeptoMail rejects with its JSON error body, e.g.
+ * `{ error: { code, message, details: [{ code, message, target }] } }`.
+ * A rejected recipient address won't get better on retry; anything else
+ * might.
+ */
+function throwZeptoMailError(error: any): never {
+    const details: { message?: string; target?: string }[] =
+        error?.error?.details ?? [];
+    throw new DeliveryError(
+        [error?.error?.message, ...details.map((detail) => detail.message)]
+            .filter(Boolean)
+            .join(': ') || String(error),
+        {
+            permanent: details.some((detail) =>
+                ZEPTO_ADDRESS_FIELDS.includes(detail.target ?? ''),
+            ),
+        },
+    );
+}
+
+/**
+ * Sends through any SMTP server, e.g. MailHog on localhost:1025 during
+ * development.
+ */
+export class SmtpTransport implements EmailTransport {
+    name = 'smtp';
+    private transporter: Transporter;
+
+    constructor() {
+        const SMTP_USER = process.env.SMTP_USER;
+        this.transporter = nodemailer.createTransport({
+            host: process.env.SMTP_HOST || 'localhost',
+            port: Number(process.env.SMTP_PORT || 1025),
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: SMTP_USER
+                ? { user: SMTP_USER, pass: process.env.SMTP_PASS }
+                : undefined,
+        });
+    }
+
+    async send(email: OutgoingEmail): Promise<EmailSendResult> {
+        const info = await this.transporter.sendMail(
+            toNodemailerMessage(email),
+        );
+        return { messageId: info.messageId };
+    }
+}
+
+const fileSafe = (value: string) => value.replace(/[^a-zA-Z0-9@._-]/g, '_');
+
+/**
+ * Writes each email as an .eml file instead of sending it, so rendered
+ * emails can be opened in a mail client.
+ */
+export class FileTransport implements EmailTransport {
+    name = 'file';
+    private directory: string;
+    // Builds the raw MIME message without sending it anywhere.
+    private transporter: Transporter;
+
+    constructor(directory?: string) {
+        this.directory =
+            directory || process.env.EMAIL_FILE_DIR || 'tmp/emails';
+        this.transporter = nodemailer.createTransport({
+            streamTransport: true,
+            buffer: true,
+            newline: 'unix',
+        });
+    }
+
+    async send(email: OutgoingEmail): Promise<EmailSendResult> {
+        const info = await this.transporter.sendMail(
+            toNodemailerMessage(email),
+        );
+
+        await mkdir(this.directory, { recursive: true });
+        // The message id keeps emails written in the same millisecond apart;
+        // 'wx' fails rather than overwrite an email already on disk.
+        const id = info.messageId.replace(/^<|@.*$/g, '');
+        const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${fileSafe(id)}-${fileSafe(email.to)}.eml`;
+        const filePath = path.join(this.directory, fileName);
+        await writeFile(filePath, info.message as Buffer, { flag: 'wx' });
+
+        console.log(`Wrote email for ${email.to} to ${filePath}`);
+        return { messageId: info.messageId };
+    }
+}
+
+function toNodemailerMessage(outgoing: OutgoingEmail) {
+    const email = applyMergeFields(outgoing);
+    return {
+        from: { address: email.from.address, name: email.from.name },
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+    };
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * The transport picked by EMAIL_TRANSPORT (zeptomail, smtp or file).
+ * Defaults to zeptomail. Missing or unknown transport configuration fails
+ * permanently, so sends aren't retried until it is fixed.
+ */
+export function getEmailTransport(): EmailTransport {
+    if (!transport) {
+        const name = (process.env.EMAIL_TRANSPORT ||
+            'zeptomail') as EmailTransportName;
+        switch (name) {
+            case 'zeptomail':
+                transport = new ZeptoMailTransport();
+                break;
+            case 'smtp':
+                transport = new SmtpTransport();
+                break;
+            case 'file':
+                transport = new FileTransport();
+                break;
+            default:
+                throw new DeliveryError(
+                    `Unknown EMAIL_TRANSPORT: ${name}. Expected zeptomail, smtp or file`,
+                    { permanent: true },
+                );
+        }
+    }
+    return transport;
+}
@@ -0,0 +1,183 @@
+/**
+ * HTML that is safe to insert into an email as-is: either built with the
+ * `markup` tag (which escapes everything interpolated into it) or explicitly
+ * marked with `trustedHtml`.
+ */
+export class SafeHtml {
+    constructor(private readonly value: string) {}
+
+    toString(): string {
+        return this.value;
+    }
+
+    // Stored (e.g. with a dead letter) as the plain HTML string.
+    toJSON(): string {
+        return this.value;
+    }
+}
+
+export type HtmlValue =
+    SafeHtml | string | number | null | undefined | HtmlValue[];
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Mark a fragment as trusted HTML. Only use this for markup written in this
+ * repo, never for values that come from users or the database.
+ */
+export function trustedHtml(fragment: string): SafeHtml {
+    return new SafeHtml(fragment);
+}
+
+function renderValue(value: HtmlValue): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof SafeHtml) return value.toString();
+    if (Array.isArray(value)) return value.map(renderValue).join('');
+    return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template for email markup. Interpolated strings and numbers are
+ * escaped; SafeHtml values (including nested `markup` results) and arrays of
+ * them are inserted as they are.
+ */
+export function markup(
+    strings: TemplateStringsArray,
+    ...values: HtmlValue[]
+): SafeHtml {
+    let result = strings[0];
+    for (let i = 0; i < values.length; i++) {
+        result += renderValue(values[i]) + strings[i + 1];
+    }
+    return new SafeHtml(result);
+}
+
+const SAFE_URL_PROTOCOLS = ['https:', 'http:', 'mailto:'];
+
+/**
+ * Validate a URL before it goes into an href. Throws for anything that
+ * isn't an absolute http(s) or mailto URL, e.g. `javascript:` links.
+ */
+export function safeUrl(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new Error(`Invalid URL for email link: ${url}`);
+    }
+    if (!SAFE_URL_PROTOCOLS.includes(parsed.protocol)) {
+        throw new Error(
+            `Unsafe URL protocol for email link: ${parsed.protocol}`,
+        );
+    }
+    return url;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x?[0-9a-fA-F]+|[a-z]+);/g, (entity, code) => {
+        if (code.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(code.slice(2), 16));
+        }
+        if (code.startsWith('#')) {
+            return String.fromCodePoint(parseInt(code.slice(1), 10));
+        }
+        return HTML_ENTITIES[code] ?? entity;
+    });
+}
+
+/**
+ * Render the HTML subset our email templates use (paragraphs, headings,
+ * line breaks, ordered/unordered lists, links and inline formatting) as
+ * plain text for the text/plain part of an email. Links keep their target
+ * in brackets after the link text.
+ */
+export function htmlToText(html: string): string {
+    const lines: string[] = [];
+    const lists: { ordered: boolean; count: number }[] = [];
+    const links: { href?: string; start: number }[] = [];
+    let current = '';
+    let prefix = '';
+
+    const flushLine = () => {
+        const line = current.replace(/\s+/g, ' ').trim();
+        if (line) lines.push(prefix + line);
+        current = '';
+        prefix = '';
+    };
+    const endBlock = () => {
+        flushLine();
+        if (lines.length && lines[lines.length - 1] !== '') lines.push('');
+    };
+
+    const tokens = html.matchAll(/<(\/?)([a-zA-Z0-9]+)([^>]*)>|([^<]+)/g);
+    for (const [, closing, tagName, attributes, text] of tokens) {
+        if (text !== undefined) {
+            current += decodeEntities(text);
+            continue;
+        }
+
+        const tag = tagName.toLowerCase();
+        if (['p', 'div', 'h1', 'h2', 'h3', 'h4'].includes(tag)) {
+            endBlock();
+        } else if (tag === 'br') {
+            flushLine();
+        } else if (tag === 'ul' || tag === 'ol') {
+            if (closing) {
+                lists.pop();
+                if (!lists.length) endBlock();
+            } else {
+                if (!lists.length) endBlock();
+                else flushLine();
+                lists.push({ ordered: tag === 'ol', count: 0 });
+            }
+        } else if (tag === 'li') {
+            flushLine();
+            const list = lists[lists.length - 1];
+            if (!closing && list) {
+                list.count++;
+                prefix =
+                    '  '.repeat(lists.length - 1) +
+                    (list.ordered ? `${list.count}. ` : '- ');
+            }
+        } else if (tag === 'a') {
+            if (!closing) {
+                const href = /href\s*=\s*"([^"]*)"/i.exec(attributes)?.[1];
+                links.push({
+                    href: href && decodeEntities(href),
+                    start: current.length,
+                });
+            } else {
+                const link = links.pop();
+                const target = link?.href?.replace(/^mailto:/, '');
+                const linkText = current
+                    .slice(link?.start ?? current.length)
+                    .trim();
+                if (target && target !== linkText) {
+                    current += ` (${target})`;
+                }
+            }
+        }
+    }
+    flushLine();
+
+    while (lines[lines.length - 1] === '') lines.pop();
+    return lines.join('\n');
+}
@@ -0,0 +1,53 @@
+import type { Branding } from './branding';
+import type { DigestItem } from './digest';
+import type { NotificationInputs, Recipient } from './notification-content';
+import type { NotificationKind } from './notification-types';
+import type { EmailContent } from './notify-service';
+import type { ShortText } from './text-template';
+
+export type Locale = 'en' | 'hi' | 'kn';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'hi', 'kn'];
+
+/**
+ * Map a stored locale such as 'hi' or 'kn-IN' to a supported locale,
+ * falling back to English.
+ */
+export function resolveLocale(value?: string | null): Locale {
+    const language = value?.toLowerCase().split(/[-_]/)[0];
+    return (
+        SUPPORTED_LOCALES.find((locale) => locale === language) ??
+        DEFAULT_LOCALE
+    );
+}
+
+export interface PushText {
+    title: string;
+    body: string;
+}
+
+// Text for one notification kind in one language. Push data, recipients and
+// channels don't depend on the language and live elsewhere.
+export interface KindMessages<K extends NotificationKind> {
+    push?: (inputs: NotificationInputs[K], recipient: Recipient) => PushText;
+    // Branding is the tenant's, for colours in the body.
+    email?: (
+        inputs: NotificationInputs[K],
+        recipient: Recipient,
+        branding: Branding,
+    ) => EmailContent;
+    digest?: (inputs: NotificationInputs[K]) => DigestItem;
+    // SMS text and WhatsApp template.
+    text?: (inputs: NotificationInputs[K], recipient: Recipient) => ShortText;
+}
+
+export type MessageCatalog = {
+    [K in NotificationKind]: KindMessages<K>;
+};
+
+// Translations may leave out kinds or parts of a kind; those fall back to
+// English.
+export type PartialMessageCatalog = {
+    [K in NotificationKind]?: Partial<KindMessages<K>>;
+};
@@ -0,0 +1,142 @@
+import { Pool } from 'pg';
+import { InAppContent } from './notification-content';
+import { NotificationContext, NotificationKind } from './notification-types';
+
+export interface InAppNotification {
+    id: number;
+    kind: NotificationKind;
+    title: string;
+    body: string;
+    link: string | null;
+    courseActivityId: number | null;
+    runId: number | null;
+    groupId: number | null;
+    createdAt: Date;
+    readAt: Date | null;
+}
+
+export interface InboxQuery {
+    unreadOnly?: boolean;
+    // Only notifications older than this id, for paging.
+    before?: number;
+    limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function toInAppNotification(row: any): InAppNotification {
+    return {
+        id: Number(row.id),
+        kind: row.kind,
+        title: row.title,
+        body: row.body,
+        link: row.link,
+        courseActivityId: row.course_activity_id,
+        runId: row.course_run_id,
+        groupId: row.group_id,
+        createdAt: new Date(row.created_at),
+        readAt: row.read_at ? new Date(row.read_at) : null,
+    };
+}
+
+/**
+ * Each user's in-app notifications, backed by the in_app_notifications table
+ * (see migrations/). Every query is scoped to one user, so a user can never
+ * read or mark someone else's notifications.
+ */
+export class Inbox {
+    private pool: Pool;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    /**
+     * Add a notification to the user's inbox. Returns false if one with the
+     * same idempotency key is already there.
+     */
+    async add(
+        userId: string,
+        item: InAppContent,
+        context: NotificationContext,
+        idempotencyKey: string,
+    ): Promise<boolean> {
+        const res = await this.pool.query(
+            `INSERT INTO in_app_notifications
+         (user_id, kind, idempotency_key, title, body, link,
+          course_activity_id, course_run_id, group_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (idempotency_key) DO NOTHING`,
+            [
+                userId,
+                context.kind,
+                idempotencyKey,
+                item.title,
+                item.body,
+                item.link ?? null,
+                context.courseActivityId ?? null,
+                context.runId ?? null,
+                context.groupId ?? null,
+            ],
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    /**
+     * The user's notifications, newest first.
+     */
+    async list(
+        userId: string,
+        query: InboxQuery = {},
+    ): Promise<InAppNotification[]> {
+        const limit = Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+        const res = await this.pool.query(
+            `SELECT * FROM in_app_notifications
+       WHERE user_id = $1
+         AND ($2::boolean IS NOT TRUE OR read_at IS NULL)
+         AND ($3::bigint IS NULL OR id < $3)
+       ORDER BY id DESC
+       LIMIT $4`,
+            [userId, query.unreadOnly ?? false, query.before ?? null, limit],
+        );
+        return res.rows.map(toInAppNotification);
+    }
+
+    async unreadCount(userId: string): Promise<number> {
+        const res = await this.pool.query(
+            `SELECT COUNT(*) AS count FROM in_app_notifications
+       WHERE user_id = $1 AND read_at IS NULL`,
+            [userId],
+        );
+        return Number(res.rows[0].count);
+    }
+
+    /**
+     * Mark one of the user's notifications read. Returns false if the user
+     * has no notification with that id.
+     */
+    async markRead(userId: string, id: number): Promise<boolean> {
+        const res = await this.pool.query(
+            `UPDATE in_app_notifications
+       SET read_at = COALESCE(read_at, NOW())
+       WHERE user_id = $1 AND id = $2`,
+            [userId, id],
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    /**
+     * Mark all of the user's notifications read. Returns how many were
+     * unread.
+     */
+    async markAllRead(userId: string): Promise<number> {
+        const res = await this.pool.query(
+            `UPDATE in_app_notifications
+       SET read_at = NOW()
+       WHERE user_id = $1 AND read_at IS NULL`,
+            [userId],
+        );
+        return res.rowCount ?? 0;
+    }
+}
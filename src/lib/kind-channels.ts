@@ -0,0 +1,38 @@
+import { Pool } from 'pg';
+import { getKindDefinition } from './notification-kinds';
+import {
+    NOTIFICATION_CHANNELS,
+    NotificationChannel,
+    NotificationKind,
+} from './notification-types';
+
+/**
+ * The channels each notification kind goes out on: the row in
+ * notification_kind_channels if there is one, else the kind's default
+ * channels. Unknown channel names in a row are ignored.
+ */
+export class KindChannels {
+    private pool: Pool;
+    private cache = new Map<NotificationKind, NotificationChannel[]>();
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    async get(kind: NotificationKind): Promise<NotificationChannel[]> {
+        const cached = this.cache.get(kind);
+        if (cached) return cached;
+
+        const res = await this.pool.query(
+            `SELECT channels FROM notification_kind_channels WHERE kind = $1`,
+            [kind],
+        );
+        const channels: NotificationChannel[] = res.rows.length
+            ? NOTIFICATION_CHANNELS.filter((channel) =>
+                  res.rows[0].channels.includes(channel),
+              )
+            : getKindDefinition(kind).channels;
+        this.cache.set(kind, channels);
+        return channels;
+    }
+}
@@ -0,0 +1,221 @@
+import { emailTemplates } from '../email-template';
+import { markup } from '../html';
+import { textTemplates } from '../text-template';
+import type { MessageCatalog } from '../i18n';
+import type { Recipient } from '../notification-content';
+import { formatDate, formatDateTime } from '../utils';
+
+// Dates render in the recipient's timezone.
+const dateTime = (value: string, recipient: Recipient) =>
+    formatDateTime(new Date(value), recipient.timeZone);
+const day = (value: string, recipient: Recipient) =>
+    formatDate(new Date(value), recipient.timeZone);
+
+// English text for every notification kind. Other languages fall back to
+// this catalog for anything they don't translate.
+export const en: MessageCatalog = {
+    student_deadline: {
+        push: (inputs, recipient) => ({
+            title: `Assignment "${inputs.activityName}" is due soon in "${inputs.runName}"`,
+            body: `Hi ${recipient.name || ''}, your assignment "${inputs.activityName}" for "${inputs.runName}" is due at ${dateTime(inputs.deadline, recipient)}. Please make sure to submit before the deadline!`,
+        }),
+        email: (inputs, recipient) =>
+            emailTemplates.deadlineSoon(
+                inputs.activityName,
+                inputs.runName,
+                dateTime(inputs.deadline, recipient),
+            ),
+        text: (inputs, recipient) =>
+            textTemplates.deadlineSoon(
+                inputs.activityName,
+                inputs.runName,
+                dateTime(inputs.deadline, recipient),
+            ),
+    },
+
+    manager_warning: {
+        push: (inputs, recipient) => ({
+            title: `Upcoming deadline for "${inputs.activityName}" in "${inputs.runName}"`,
+            body: `Hi ${recipient.name || ''}, the activity "${inputs.activityName}" in "${inputs.runName}" is due in 30 minutes (at ${dateTime(inputs.deadline, recipient)}).`,
+        }),
+        email: (inputs, recipient) =>
+            emailTemplates.adminDeadline(
+                inputs.activityName,
+                inputs.runName,
+                dateTime(inputs.deadline, recipient),
+            ),
+        text: (inputs, recipient) =>
+            textTemplates.adminDeadline(
+                inputs.activityName,
+                inputs.runName,
+                dateTime(inputs.deadline, recipient),
+            ),
+    },
+
+    score_published: {
+        push: (inputs, recipient) => ({
+            title: `Score Published: ${inputs.activityName}`,
+            body: `Hi ${recipient.name || ''}, your score for "${inputs.activityName}" in "${inputs.runName}" has been published. Check your mail for more details!`,
+        }),
+        email: (inputs) =>
+            emailTemplates.scorePublished(inputs.activityName, inputs.runName),
+        digest: (inputs) => ({
+            title: `Score published: ${inputs.activityName}`,
+            summary: markup`Your score for
+                <strong>${inputs.activityName}</strong> in
+                <strong>${inputs.runName}</strong> has been published. Find it
+                under <strong>Grades</strong>.`,
+        }),
+        text: (inputs) =>
+            textTemplates.scorePublished(inputs.activityName, inputs.runName),
+    },
+
+    activity_posted: {
+        push: (inputs, recipient) => ({
+            title: `New Activity: ${inputs.activityName}`,
+            body: `Hi ${recipient.name || ''}, a new activity "${inputs.activityName}" has been added to "${inputs.runName}". Check it out!`,
+        }),
+        email: (inputs) =>
+            emailTemplates.activityPosted(inputs.activityName, inputs.runName),
+        digest: (inputs) => ({
+            title: `New activity: ${inputs.activityName}`,
+            summary: markup`A new activity
+                <strong>${inputs.activityName}</strong> has been added to
+                <strong>${inputs.runName}</strong>.`,
+        }),
+        text: (inputs) =>
+            textTemplates.activityPosted(inputs.activityName, inputs.runName),
+    },
+
+    redo_enabled: {
+        push: (inputs, recipient) => ({
+            title: `Redo enabled for "${inputs.activityName}" in "${inputs.courseInfo}"`,
+            body: `Hi ${recipient.name || ''}, redo for activity "${inputs.activityName}" is enabled. New deadline: ${dateTime(inputs.newDeadline, recipient)}.`,
+        }),
+        email: (inputs, recipient) =>
+            emailTemplates.redoEnabled(
+                inputs.activityName,
+                dateTime(inputs.newDeadline, recipient),
+                inputs.courseInfo,
+            ),
+        text: (inputs, recipient) =>
+            textTemplates.redoEnabled(
+                inputs.activityName,
+                dateTime(inputs.newDeadline, recipient),
+                inputs.courseInfo,
+            ),
+    },
+
+    added_to_group: {
+        push: (inputs, recipient) => ({
+            title: `You've been added to group: ${inputs.groupName}`,
+            body: `Hi ${recipient.name || ''}, you have been added to group "${inputs.groupName}". Check your dashboard for details!`,
+        }),
+        email: (inputs) => emailTemplates.addedToGroup(inputs.groupName),
+        digest: (inputs) => ({
+            title: `Added to group: ${inputs.groupName}`,
+            summary: markup`You've been added to the group
+                <strong>${inputs.groupName}</strong>.`,
+        }),
+        text: (inputs) => textTemplates.addedToGroup(inputs.groupName),
+    },
+
+    new_document: {
+        push: (inputs, recipient) => ({
+            title: `New Document Added: ${inputs.documentName}`,
+            body:
+                recipient.role === 'manager'
+                    ? `Hi ${recipient.name || ''}, a new document "${inputs.documentName}" has been added to your course.`
+                    : `Hi ${recipient.name || ''}, a new document "${inputs.documentName}" has been added to your course. Check it out!`,
+        }),
+        email: (inputs) =>
+            emailTemplates.newDocument(inputs.documentName, inputs.courseName),
+        digest: (inputs) => ({
+            title: `New document: ${inputs.documentName}`,
+            summary: markup`A new document
+                <strong>${inputs.documentName}</strong> has been added to
+                <strong>${inputs.courseName}</strong>.`,
+        }),
+        text: (inputs) =>
+            textTemplates.newDocument(inputs.documentName, inputs.courseName),
+    },
+
+    missed_deadline: {
+        push: (inputs, recipient) => ({
+            title: `Missed Deadline: ${inputs.activityName}`,
+            body: `Hi ${recipient.name || ''}, you missed the deadline for "${inputs.activityName}" in "${inputs.runName}". Please check with your facilitator for next steps.`,
+        }),
+        email: (inputs) =>
+            emailTemplates.missedDeadline(inputs.activityName, inputs.runName),
+        text: (inputs) =>
+            textTemplates.missedDeadline(inputs.activityName, inputs.runName),
+    },
+
+    facilitator_summary: {
+        push: (inputs) => ({
+            title: `Graded activity deadline passed: ${inputs.activityName}`,
+            body: `Activity "${inputs.activityName}" in "${inputs.runName}" deadline passed. Submitted: ${inputs.submitted}, Not submitted: ${inputs.notSubmitted}`,
+        }),
+        email: (inputs) =>
+            emailTemplates.facilitatorSummary(
+                inputs.activityName,
+                inputs.runName,
+                inputs.submitted,
+                inputs.notSubmitted,
+            ),
+        text: (inputs) =>
+            textTemplates.facilitatorSummary(
+                inputs.activityName,
+                inputs.runName,
+                inputs.submitted,
+                inputs.notSubmitted,
+            ),
+    },
+
+    course_run_finalize: {
+        push: (inputs) => ({
+            title: `Course run finalized: ${inputs.runName}`,
+            body: `The course run "${inputs.runName}" for course "${inputs.courseName}" has been finalized. Please check the dashboard for details.`,
+        }),
+        email: (inputs, recipient) =>
+            emailTemplates.courseRunFinalize(
+                inputs.courseName,
+                inputs.runName,
+                inputs.endDate ? day(inputs.endDate, recipient) : '',
+            ),
+        text: (inputs, recipient) =>
+            textTemplates.courseRunFinalize(
+                inputs.courseName,
+                inputs.runName,
+                inputs.endDate ? day(inputs.endDate, recipient) : '',
+            ),
+    },
+
+    password_reset: {
+        email: (inputs, recipient, branding) => ({
+            ...emailTemplates.passwordResetEmail(
+                inputs.resetUrl,
+                inputs.expiresInMinutes,
+                branding.primaryColor,
+            ),
+            ctaText: 'Reset Password',
+            ctaUrl: inputs.resetUrl,
+        }),
+        text: (inputs) =>
+            textTemplates.passwordResetEmail(inputs.expiresInMinutes),
+    },
+
+    daily_digest: {
+        email: (inputs, recipient, branding) =>
+            emailTemplates.dailyDigest(
+                day(inputs.date, recipient),
+                inputs.sections,
+                branding.primaryColor,
+            ),
+        text: (inputs, recipient) =>
+            textTemplates.dailyDigest(
+                day(inputs.date, recipient),
+                inputs.sections,
+            ),
+    },
+};
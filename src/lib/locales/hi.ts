@@ -0,0 +1,202 @@
+import { digestSectionsMarkup } from '../email-template';
+import { markup, safeUrl } from '../html';
+import type { PartialMessageCatalog } from '../i18n';
+import type { Recipient } from '../notification-content';
+import { formatDate, formatDateTime } from '../utils';
+
+// Dates render in the recipient's timezone.
+const dateTime = (value: string, recipient: Recipient) =>
+    formatDateTime(new Date(value), recipient.timeZone, 'hi');
+const day = (value: string, recipient: Recipient) =>
+    formatDate(new Date(value), recipient.timeZone, 'hi');
+
+// Hindi text for student-facing notifications. Staff notifications use the
+// English catalog.
+export const hi: PartialMessageCatalog = {
+    student_deadline: {
+        push: (inputs, recipient) => ({
+            title: `"${inputs.runName}" में असाइनमेंट "${inputs.activityName}" की समय-सीमा जल्द है`,
+            body: `नमस्ते ${recipient.name || ''}, "${inputs.runName}" के लिए आपका असाइनमेंट "${inputs.activityName}" ${dateTime(inputs.deadline, recipient)} तक जमा करना है। कृपया समय-सीमा से पहले जमा करें!`,
+        }),
+        email: (inputs, recipient) => ({
+            subject: 'गतिविधि की आगामी समय-सीमा',
+            heading: 'आपकी गतिविधि की समय-सीमा नज़दीक है',
+            subheading: 'सही राह पर बने रहने के लिए समय-सीमा से पहले जमा करें।',
+            body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.runName}</strong> के लिए आपकी गतिविधि <strong>${inputs.activityName}</strong> <strong>${dateTime(inputs.deadline, recipient)}</strong> तक जमा करनी है।</p>
+      <p>कृपया इसे समय-सीमा से पहले जमा करना सुनिश्चित करें।</p>
+    `,
+        }),
+    },
+
+    score_published: {
+        push: (inputs, recipient) => ({
+            title: `अंक प्रकाशित: ${inputs.activityName}`,
+            body: `नमस्ते ${recipient.name || ''}, "${inputs.runName}" में "${inputs.activityName}" के लिए आपके अंक प्रकाशित हो गए हैं। अधिक जानकारी के लिए अपना ईमेल देखें!`,
+        }),
+        email: (inputs) => ({
+            subject: 'आपके अंक अब उपलब्ध हैं',
+            heading: 'आपकी गतिविधि के अंक प्रकाशित हुए',
+            subheading: 'पाठ्यक्रम में अपने प्रदर्शन की समीक्षा करें।',
+            body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.runName}</strong> में <strong>${inputs.activityName}</strong> के लिए आपके अंक प्रकाशित हो गए हैं।</p>
+      <p style="margin-bottom: 15px; font-weight: bold;">अपने अंक कैसे देखें:</p>
+      <ol style="margin-bottom: 0; padding-left: 20px;">
+        <li style="margin-bottom: 8px;">होम पेज पर जाएँ।</li>
+        <li style="margin-bottom: 8px;">साइडबार में <strong>Grades</strong> विकल्प चुनें।</li>
+        <li style="margin-bottom: 8px;">सही कोर्स रन चुनें।</li>
+        <li>अपने अंक देखने के लिए सूची में <strong>${inputs.activityName}</strong> खोजें।</li>
+      </ol>
+    `,
+        }),
+        digest: (inputs) => ({
+            title: `अंक प्रकाशित: ${inputs.activityName}`,
+            summary: markup`<strong>${inputs.runName}</strong> में
+                <strong>${inputs.activityName}</strong> के लिए आपके अंक
+                प्रकाशित हो गए हैं। इन्हें <strong>Grades</strong> में देखें।`,
+        }),
+    },
+
+    activity_posted: {
+        push: (inputs, recipient) => ({
+            title: `नई गतिविधि: ${inputs.activityName}`,
+            body: `नमस्ते ${recipient.name || ''}, "${inputs.runName}" में एक नई गतिविधि "${inputs.activityName}" जोड़ी गई है। इसे देखें!`,
+        }),
+        email: (inputs) => ({
+            subject: 'आपके कोर्स रन में नई गतिविधि उपलब्ध है',
+            heading: 'एक नई गतिविधि आपका इंतज़ार कर रही है',
+            subheading: 'सीखते रहें और सही राह पर बने रहें।',
+            body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.runName}</strong> में एक नई गतिविधि <strong>${inputs.activityName}</strong> जोड़ी गई है।</p>
+      <p>इसे देखने और अपनी सीखने की यात्रा जारी रखने के लिए अपने डैशबोर्ड पर जाएँ।</p>
+    `,
+        }),
+        digest: (inputs) => ({
+            title: `नई गतिविधि: ${inputs.activityName}`,
+            summary: markup`<strong>${inputs.runName}</strong> में एक नई
+                गतिविधि <strong>${inputs.activityName}</strong> जोड़ी गई है।`,
+        }),
+    },
+
+    redo_enabled: {
+        push: (inputs, recipient) => ({
+            title: `"${inputs.courseInfo}" में "${inputs.activityName}" के लिए पुनः प्रयास सक्षम`,
+            body: `नमस्ते ${recipient.name || ''}, गतिविधि "${inputs.activityName}" के लिए पुनः प्रयास सक्षम कर दिया गया है। नई समय-सीमा: ${dateTime(inputs.newDeadline, recipient)}।`,
+        }),
+        email: (inputs, recipient) => ({
+            subject: 'आपकी गतिविधि के लिए पुनः प्रयास सक्षम',
+            heading: 'आप अपनी गतिविधि फिर से कर सकते हैं',
+            subheading: 'अपना काम पूरा करने का एक नया अवसर।',
+            body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 10px;"><strong>${inputs.activityName}</strong> के लिए पुनः प्रयास सक्षम कर दिया गया है।</p>
+      <p style="margin-bottom: 15px;">जमा करने की आपकी नई समय-सीमा <strong>${dateTime(inputs.newDeadline, recipient)}</strong> है।</p>
+      <p>कृपया <strong>${inputs.courseInfo}</strong> देखें और अपना उत्तर जमा करें।</p>
+    `,
+        }),
+    },
+
+    added_to_group: {
+        push: (inputs, recipient) => ({
+            title: `आपको समूह में जोड़ा गया: ${inputs.groupName}`,
+            body: `नमस्ते ${recipient.name || ''}, आपको समूह "${inputs.groupName}" में जोड़ा गया है। विवरण के लिए अपना डैशबोर्ड देखें!`,
+        }),
+        email: (inputs) => ({
+            subject: 'आपको एक समूह में जोड़ा गया है',
+            heading: 'समूह की पहुँच मिली',
+            subheading: 'अपनी कोर्स गतिविधियों को व्यवस्थित रखें।',
+            body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 15px;">आपको समूह <strong>${inputs.groupName}</strong> में जोड़ा गया है।</p>
+      <p>समूह का विवरण देखने के लिए अपने डैशबोर्ड पर जाएँ।</p>
+    `,
+        }),
+        digest: (inputs) => ({
+            title: `समूह में जोड़ा गया: ${inputs.groupName}`,
+            summary: markup`आपको समूह <strong>${inputs.groupName}</strong> में
+                जोड़ा गया है।`,
+        }),
+    },
+
+    new_document: {
+        push: (inputs, recipient) => ({
+            title: `नया दस्तावेज़ जोड़ा गया: ${inputs.documentName}`,
+            body: `नमस्ते ${recipient.name || ''}, आपके कोर्स में एक नया दस्तावेज़ "${inputs.documentName}" जोड़ा गया है। इसे देखें!`,
+        }),
+        email: (inputs) => ({
+            subject: 'आपके कोर्स में नया दस्तावेज़ उपलब्ध है',
+            heading: 'एक नया संसाधन साझा किया गया है',
+            subheading: 'अपने कोर्स की नवीनतम सामग्री देखें।',
+            body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.courseName}</strong> में एक नया दस्तावेज़ <strong>${inputs.documentName}</strong> जोड़ा गया है।</p>
+      <p>इसे देखने के लिए अपने डैशबोर्ड पर जाएँ।</p>
+    `,
+        }),
+        digest: (inputs) => ({
+            title: `नया दस्तावेज़: ${inputs.documentName}`,
+            summary: markup`<strong>${inputs.courseName}</strong> में एक नया
+                दस्तावेज़ <strong>${inputs.documentName}</strong> जोड़ा गया है।`,
+        }),
+    },
+
+    missed_deadline: {
+        push: (inputs, recipient) => ({
+            title: `समय-सीमा छूट गई: ${inputs.activityName}`,
+            body: `नमस्ते ${recipient.name || ''}, "${inputs.runName}" में "${inputs.activityName}" की समय-सीमा आपसे छूट गई है। आगे क्या करना है, इसके लिए अपने फ़ैसिलिटेटर से बात करें।`,
+        }),
+        email: (inputs) => ({
+            subject: 'समय-सीमा छूटने की सूचना',
+            heading: 'आपसे एक समय-सीमा छूट गई',
+            subheading: 'आगे के कदमों के लिए अपने प्रशिक्षक से संपर्क करें।',
+            body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.runName}</strong> में <strong>${inputs.activityName}</strong> की समय-सीमा आपसे छूट गई है।</p>
+      <p>आगे कैसे बढ़ें, इसके मार्गदर्शन के लिए कृपया अपने प्रशिक्षक से संपर्क करें।</p>
+    `,
+        }),
+    },
+
+    password_reset: {
+        email: (inputs, recipient, branding) => ({
+            subject: 'अपना LearnX पासवर्ड रीसेट करें',
+            heading: 'पासवर्ड रीसेट करें',
+            subheading:
+                'अपना पासवर्ड बदलने के लिए नीचे दिए सुरक्षित लिंक का उपयोग करें।',
+            body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 15px;">हमें आपका LearnX पासवर्ड रीसेट करने का अनुरोध मिला है।</p>
+      <p style="margin-bottom: 15px;">यह लिंक <strong>${inputs.expiresInMinutes} मिनट</strong> तक मान्य है।</p>
+      <p style="margin-bottom: 10px;">अगर बटन काम न करे, तो इस लिंक का उपयोग करें:</p>
+      <p style="margin-bottom: 15px; word-break: break-all;"><a href="${safeUrl(inputs.resetUrl)}" style="color: ${branding.primaryColor};">${inputs.resetUrl}</a></p>
+      <p>अगर आपने यह अनुरोध नहीं किया है, तो आप इस ईमेल को अनदेखा कर सकते हैं।</p>
+    `,
+            ctaText: 'पासवर्ड रीसेट करें',
+            ctaUrl: inputs.resetUrl,
+        }),
+    },
+
+    daily_digest: {
+        email: (inputs, recipient, branding) => {
+            const date = day(inputs.date, recipient);
+            return {
+                subject: `${date} के लिए आपका LearnX डाइजेस्ट`,
+                heading: 'आपका दैनिक डाइजेस्ट',
+                subheading: 'आपके कोर्स में नया क्या है, यहाँ देखें।',
+                body: markup`
+      <p style="margin-bottom: 15px;">नमस्ते,</p>
+      <p style="margin-bottom: 15px;"><strong>${date}</strong> के लिए आपके अपडेट ये हैं।</p>
+      ${digestSectionsMarkup(
+          inputs.sections,
+          'अन्य अपडेट',
+          branding.primaryColor,
+      )}
+      <p>विवरण के लिए अपने डैशबोर्ड पर जाएँ।</p>
+    `,
+            };
+        },
+    },
+};
@@ -0,0 +1,26 @@
+import type {
+    KindMessages,
+    Locale,
+    MessageCatalog,
+    PartialMessageCatalog,
+} from '../i18n';
+import type { NotificationKind } from '../notification-types';
+import { en } from './en';
+import { hi } from './hi';
+import { kn } from './kn';
+
+const catalogs: Record<Locale, PartialMessageCatalog> = { en, hi, kn };
+
+/**
+ * Messages for a kind in the given locale. Anything the locale doesn't
+ * translate comes from the English catalog.
+ */
+export function getKindMessages<K extends NotificationKind>(
+    kind: K,
+    locale: Locale,
+): KindMessages<K> {
+    const english: MessageCatalog[K] = en[kind];
+    const translated = catalogs[locale][kind] as
+        Partial<KindMessages<K>> | undefined;
+    return { ...english, ...translated };
+}
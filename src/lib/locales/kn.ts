@@ -0,0 +1,202 @@
+import { digestSectionsMarkup } from '../email-template';
+import { markup, safeUrl } from '../html';
+import type { PartialMessageCatalog } from '../i18n';
+import type { Recipient } from '../notification-content';
+import { formatDate, formatDateTime } from '../utils';
+
+// Dates render in the recipient's timezone.
+const dateTime = (value: string, recipient: Recipient) =>
+    formatDateTime(new Date(value), recipient.timeZone, 'kn');
+const day = (value: string, recipient: Recipient) =>
+    formatDate(new Date(value), recipient.timeZone, 'kn');
+
+// Kannada text for student-facing notifications. Staff notifications use the
+// English catalog.
+export const kn: PartialMessageCatalog = {
+    student_deadline: {
+        push: (inputs, recipient) => ({
+            title: `"${inputs.runName}" ನಲ್ಲಿ ಅಸೈನ್‌ಮೆಂಟ್ "${inputs.activityName}" ನ ಗಡುವು ಹತ್ತಿರವಾಗಿದೆ`,
+            body: `ನಮಸ್ಕಾರ ${recipient.name || ''}, "${inputs.runName}" ಗಾಗಿ ನಿಮ್ಮ ಅಸೈನ್‌ಮೆಂಟ್ "${inputs.activityName}" ಅನ್ನು ${dateTime(inputs.deadline, recipient)} ರೊಳಗೆ ಸಲ್ಲಿಸಬೇಕು. ದಯವಿಟ್ಟು ಗಡುವಿನ ಮೊದಲು ಸಲ್ಲಿಸಿ!`,
+        }),
+        email: (inputs, recipient) => ({
+            subject: 'ಚಟುವಟಿಕೆಯ ಮುಂಬರುವ ಗಡುವು',
+            heading: 'ನಿಮ್ಮ ಚಟುವಟಿಕೆಯ ಗಡುವು ಹತ್ತಿರವಾಗಿದೆ',
+            subheading: 'ಸರಿಯಾದ ಹಾದಿಯಲ್ಲಿರಲು ಗಡುವಿನ ಮೊದಲು ಸಲ್ಲಿಸಿ.',
+            body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.runName}</strong> ಗಾಗಿ ನಿಮ್ಮ ಚಟುವಟಿಕೆ <strong>${inputs.activityName}</strong> ಅನ್ನು <strong>${dateTime(inputs.deadline, recipient)}</strong> ರೊಳಗೆ ಸಲ್ಲಿಸಬೇಕು.</p>
+      <p>ದಯವಿಟ್ಟು ಗಡುವಿನ ಮೊದಲು ಸಲ್ಲಿಸುವುದನ್ನು ಖಚಿತಪಡಿಸಿಕೊಳ್ಳಿ.</p>
+    `,
+        }),
+    },
+
+    score_published: {
+        push: (inputs, recipient) => ({
+            title: `ಅಂಕಗಳು ಪ್ರಕಟವಾಗಿವೆ: ${inputs.activityName}`,
+            body: `ನಮಸ್ಕಾರ ${recipient.name || ''}, "${inputs.runName}" ನಲ್ಲಿ "${inputs.activityName}" ಗಾಗಿ ನಿಮ್ಮ ಅಂಕಗಳು ಪ್ರಕಟವಾಗಿವೆ. ಹೆಚ್ಚಿನ ವಿವರಗಳಿಗಾಗಿ ನಿಮ್ಮ ಇಮೇಲ್ ನೋಡಿ!`,
+        }),
+        email: (inputs) => ({
+            subject: 'ನಿಮ್ಮ ಅಂಕಗಳು ಈಗ ಲಭ್ಯವಿವೆ',
+            heading: 'ನಿಮ್ಮ ಚಟುವಟಿಕೆಯ ಅಂಕಗಳು ಪ್ರಕಟವಾಗಿವೆ',
+            subheading: 'ಕೋರ್ಸ್‌ನಲ್ಲಿ ನಿಮ್ಮ ಸಾಧನೆಯನ್ನು ಪರಿಶೀಲಿಸಿ.',
+            body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.runName}</strong> ನಲ್ಲಿ <strong>${inputs.activityName}</strong> ಗಾಗಿ ನಿಮ್ಮ ಅಂಕಗಳು ಪ್ರಕಟವಾಗಿವೆ.</p>
+      <p style="margin-bottom: 15px; font-weight: bold;">ನಿಮ್ಮ ಅಂಕಗಳನ್ನು ನೋಡುವುದು ಹೇಗೆ:</p>
+      <ol style="margin-bottom: 0; padding-left: 20px;">
+        <li style="margin-bottom: 8px;">ಮುಖಪುಟಕ್ಕೆ ಹೋಗಿ.</li>
+        <li style="margin-bottom: 8px;">ಸೈಡ್‌ಬಾರ್‌ನಲ್ಲಿ <strong>Grades</strong> ಆಯ್ಕೆಯನ್ನು ಆರಿಸಿ.</li>
+        <li style="margin-bottom: 8px;">ಸರಿಯಾದ ಕೋರ್ಸ್ ರನ್ ಆರಿಸಿ.</li>
+        <li>ನಿಮ್ಮ ಅಂಕಗಳನ್ನು ನೋಡಲು ಪಟ್ಟಿಯಲ್ಲಿ <strong>${inputs.activityName}</strong> ಅನ್ನು ಹುಡುಕಿ.</li>
+      </ol>
+    `,
+        }),
+        digest: (inputs) => ({
+            title: `ಅಂಕಗಳು ಪ್ರಕಟವಾಗಿವೆ: ${inputs.activityName}`,
+            summary: markup`<strong>${inputs.runName}</strong> ನಲ್ಲಿ
+                <strong>${inputs.activityName}</strong> ಗಾಗಿ ನಿಮ್ಮ ಅಂಕಗಳು
+                ಪ್ರಕಟವಾಗಿವೆ. ಅವುಗಳನ್ನು <strong>Grades</strong> ನಲ್ಲಿ ನೋಡಿ.`,
+        }),
+    },
+
+    activity_posted: {
+        push: (inputs, recipient) => ({
+            title: `ಹೊಸ ಚಟುವಟಿಕೆ: ${inputs.activityName}`,
+            body: `ನಮಸ್ಕಾರ ${recipient.name || ''}, "${inputs.runName}" ಗೆ ಹೊಸ ಚಟುವಟಿಕೆ "${inputs.activityName}" ಸೇರಿಸಲಾಗಿದೆ. ನೋಡಿ!`,
+        }),
+        email: (inputs) => ({
+            subject: 'ನಿಮ್ಮ ಕೋರ್ಸ್ ರನ್‌ನಲ್ಲಿ ಹೊಸ ಚಟುವಟಿಕೆ ಲಭ್ಯವಿದೆ',
+            heading: 'ಹೊಸ ಚಟುವಟಿಕೆ ನಿಮಗಾಗಿ ಕಾಯುತ್ತಿದೆ',
+            subheading: 'ಕಲಿಕೆಯನ್ನು ಮುಂದುವರಿಸಿ.',
+            body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.runName}</strong> ಗೆ ಹೊಸ ಚಟುವಟಿಕೆ <strong>${inputs.activityName}</strong> ಸೇರಿಸಲಾಗಿದೆ.</p>
+      <p>ಅದನ್ನು ನೋಡಲು ಮತ್ತು ನಿಮ್ಮ ಕಲಿಕೆಯನ್ನು ಮುಂದುವರಿಸಲು ನಿಮ್ಮ ಡ್ಯಾಶ್‌ಬೋರ್ಡ್‌ಗೆ ಭೇಟಿ ನೀಡಿ.</p>
+    `,
+        }),
+        digest: (inputs) => ({
+            title: `ಹೊಸ ಚಟುವಟಿಕೆ: ${inputs.activityName}`,
+            summary: markup`<strong>${inputs.runName}</strong> ಗೆ ಹೊಸ ಚಟುವಟಿಕೆ
+                <strong>${inputs.activityName}</strong> ಸೇರಿಸಲಾಗಿದೆ.`,
+        }),
+    },
+
+    redo_enabled: {
+        push: (inputs, recipient) => ({
+            title: `"${inputs.courseInfo}" ನಲ್ಲಿ "${inputs.activityName}" ಗೆ ಮರುಪ್ರಯತ್ನ ಸಕ್ರಿಯಗೊಂಡಿದೆ`,
+            body: `ನಮಸ್ಕಾರ ${recipient.name || ''}, ಚಟುವಟಿಕೆ "${inputs.activityName}" ಗೆ ಮರುಪ್ರಯತ್ನ ಸಕ್ರಿಯಗೊಂಡಿದೆ. ಹೊಸ ಗಡುವು: ${dateTime(inputs.newDeadline, recipient)}.`,
+        }),
+        email: (inputs, recipient) => ({
+            subject: 'ನಿಮ್ಮ ಚಟುವಟಿಕೆಗೆ ಮರುಪ್ರಯತ್ನ ಸಕ್ರಿಯಗೊಂಡಿದೆ',
+            heading: 'ನೀವು ನಿಮ್ಮ ಚಟುವಟಿಕೆಯನ್ನು ಮತ್ತೆ ಮಾಡಬಹುದು',
+            subheading: 'ನಿಮ್ಮ ಕೆಲಸವನ್ನು ಪೂರ್ಣಗೊಳಿಸಲು ಹೊಸ ಅವಕಾಶ.',
+            body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 10px;"><strong>${inputs.activityName}</strong> ಗೆ ಮರುಪ್ರಯತ್ನ ಸಕ್ರಿಯಗೊಳಿಸಲಾಗಿದೆ.</p>
+      <p style="margin-bottom: 15px;">ಸಲ್ಲಿಕೆಗೆ ನಿಮ್ಮ ಹೊಸ ಗಡುವು <strong>${dateTime(inputs.newDeadline, recipient)}</strong>.</p>
+      <p>ದಯವಿಟ್ಟು <strong>${inputs.courseInfo}</strong> ನೋಡಿ ಮತ್ತು ನಿಮ್ಮ ಉತ್ತರವನ್ನು ಸಲ್ಲಿಸಿ.</p>
+    `,
+        }),
+    },
+
+    added_to_group: {
+        push: (inputs, recipient) => ({
+            title: `ನಿಮ್ಮನ್ನು ಗುಂಪಿಗೆ ಸೇರಿಸಲಾಗಿದೆ: ${inputs.groupName}`,
+            body: `ನಮಸ್ಕಾರ ${recipient.name || ''}, ನಿಮ್ಮನ್ನು "${inputs.groupName}" ಗುಂಪಿಗೆ ಸೇರಿಸಲಾಗಿದೆ. ವಿವರಗಳಿಗಾಗಿ ನಿಮ್ಮ ಡ್ಯಾಶ್‌ಬೋರ್ಡ್ ನೋಡಿ!`,
+        }),
+        email: (inputs) => ({
+            subject: 'ನಿಮ್ಮನ್ನು ಒಂದು ಗುಂಪಿಗೆ ಸೇರಿಸಲಾಗಿದೆ',
+            heading: 'ಗುಂಪಿನ ಪ್ರವೇಶ ದೊರೆತಿದೆ',
+            subheading: 'ನಿಮ್ಮ ಕೋರ್ಸ್ ಚಟುವಟಿಕೆಗಳನ್ನು ವ್ಯವಸ್ಥಿತವಾಗಿಡಿ.',
+            body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 15px;">ನಿಮ್ಮನ್ನು <strong>${inputs.groupName}</strong> ಗುಂಪಿಗೆ ಸೇರಿಸಲಾಗಿದೆ.</p>
+      <p>ಗುಂಪಿನ ವಿವರಗಳನ್ನು ನೋಡಲು ನಿಮ್ಮ ಡ್ಯಾಶ್‌ಬೋರ್ಡ್‌ಗೆ ಭೇಟಿ ನೀಡಿ.</p>
+    `,
+        }),
+        digest: (inputs) => ({
+            title: `ಗುಂಪಿಗೆ ಸೇರಿಸಲಾಗಿದೆ: ${inputs.groupName}`,
+            summary: markup`ನಿಮ್ಮನ್ನು <strong>${inputs.groupName}</strong>
+                ಗುಂಪಿಗೆ ಸೇರಿಸಲಾಗಿದೆ.`,
+        }),
+    },
+
+    new_document: {
+        push: (inputs, recipient) => ({
+            title: `ಹೊಸ ದಾಖಲೆ ಸೇರಿಸಲಾಗಿದೆ: ${inputs.documentName}`,
+            body: `ನಮಸ್ಕಾರ ${recipient.name || ''}, ನಿಮ್ಮ ಕೋರ್ಸ್‌ಗೆ ಹೊಸ ದಾಖಲೆ "${inputs.documentName}" ಸೇರಿಸಲಾಗಿದೆ. ನೋಡಿ!`,
+        }),
+        email: (inputs) => ({
+            subject: 'ನಿಮ್ಮ ಕೋರ್ಸ್‌ನಲ್ಲಿ ಹೊಸ ದಾಖಲೆ ಲಭ್ಯವಿದೆ',
+            heading: 'ಹೊಸ ಸಂಪನ್ಮೂಲವನ್ನು ಹಂಚಿಕೊಳ್ಳಲಾಗಿದೆ',
+            subheading: 'ನಿಮ್ಮ ಕೋರ್ಸ್‌ನ ಇತ್ತೀಚಿನ ಸಾಮಗ್ರಿಯನ್ನು ನೋಡಿ.',
+            body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.courseName}</strong> ಗೆ ಹೊಸ ದಾಖಲೆ <strong>${inputs.documentName}</strong> ಸೇರಿಸಲಾಗಿದೆ.</p>
+      <p>ಅದನ್ನು ಪರಿಶೀಲಿಸಲು ನಿಮ್ಮ ಡ್ಯಾಶ್‌ಬೋರ್ಡ್‌ಗೆ ಭೇಟಿ ನೀಡಿ.</p>
+    `,
+        }),
+        digest: (inputs) => ({
+            title: `ಹೊಸ ದಾಖಲೆ: ${inputs.documentName}`,
+            summary: markup`<strong>${inputs.courseName}</strong> ಗೆ ಹೊಸ ದಾಖಲೆ
+                <strong>${inputs.documentName}</strong> ಸೇರಿಸಲಾಗಿದೆ.`,
+        }),
+    },
+
+    missed_deadline: {
+        push: (inputs, recipient) => ({
+            title: `ಗಡುವು ತಪ್ಪಿದೆ: ${inputs.activityName}`,
+            body: `ನಮಸ್ಕಾರ ${recipient.name || ''}, "${inputs.runName}" ನಲ್ಲಿ "${inputs.activityName}" ನ ಗಡುವನ್ನು ನೀವು ತಪ್ಪಿಸಿಕೊಂಡಿದ್ದೀರಿ. ಮುಂದಿನ ಹಂತಗಳಿಗಾಗಿ ನಿಮ್ಮ ಫೆಸಿಲಿಟೇಟರ್ ಅವರನ್ನು ಸಂಪರ್ಕಿಸಿ.`,
+        }),
+        email: (inputs) => ({
+            subject: 'ಗಡುವು ತಪ್ಪಿದ ಸೂಚನೆ',
+            heading: 'ನೀವು ಒಂದು ಗಡುವನ್ನು ತಪ್ಪಿಸಿಕೊಂಡಿದ್ದೀರಿ',
+            subheading: 'ಮುಂದಿನ ಹಂತಗಳಿಗಾಗಿ ನಿಮ್ಮ ಬೋಧಕರನ್ನು ಸಂಪರ್ಕಿಸಿ.',
+            body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 15px;"><strong>${inputs.runName}</strong> ನಲ್ಲಿ <strong>${inputs.activityName}</strong> ನ ಗಡುವನ್ನು ನೀವು ತಪ್ಪಿಸಿಕೊಂಡಿದ್ದೀರಿ.</p>
+      <p>ಮುಂದೆ ಹೇಗೆ ಮುಂದುವರಿಯಬೇಕು ಎಂಬ ಮಾರ್ಗದರ್ಶನಕ್ಕಾಗಿ ದಯವಿಟ್ಟು ನಿಮ್ಮ ಬೋಧಕರನ್ನು ಸಂಪರ್ಕಿಸಿ.</p>
+    `,
+        }),
+    },
+
+    password_reset: {
+        email: (inputs, recipient, branding) => ({
+            subject: 'ನಿಮ್ಮ LearnX ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸಿ',
+            heading: 'ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸಿ',
+            subheading:
+                'ನಿಮ್ಮ ಪಾಸ್‌ವರ್ಡ್ ಬದಲಾಯಿಸಲು ಕೆಳಗಿನ ಸುರಕ್ಷಿತ ಲಿಂಕ್ ಬಳಸಿ.',
+            body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 15px;">ನಿಮ್ಮ LearnX ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸಲು ನಮಗೆ ವಿನಂತಿ ಬಂದಿದೆ.</p>
+      <p style="margin-bottom: 15px;">ಈ ಲಿಂಕ್ <strong>${inputs.expiresInMinutes} ನಿಮಿಷಗಳವರೆಗೆ</strong> ಮಾನ್ಯವಾಗಿರುತ್ತದೆ.</p>
+      <p style="margin-bottom: 10px;">ಬಟನ್ ಕೆಲಸ ಮಾಡದಿದ್ದರೆ, ಈ ಲಿಂಕ್ ಬಳಸಿ:</p>
+      <p style="margin-bottom: 15px; word-break: break-all;"><a href="${safeUrl(inputs.resetUrl)}" style="color: ${branding.primaryColor};">${inputs.resetUrl}</a></p>
+      <p>ನೀವು ಈ ವಿನಂತಿಯನ್ನು ಮಾಡದಿದ್ದರೆ, ಈ ಇಮೇಲ್ ಅನ್ನು ನಿರ್ಲಕ್ಷಿಸಬಹುದು.</p>
+    `,
+            ctaText: 'ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸಿ',
+            ctaUrl: inputs.resetUrl,
+        }),
+    },
+
+    daily_digest: {
+        email: (inputs, recipient, branding) => {
+            const date = day(inputs.date, recipient);
+            return {
+                subject: `${date} ರ ನಿಮ್ಮ LearnX ಡೈಜೆಸ್ಟ್`,
+                heading: 'ನಿಮ್ಮ ದೈನಂದಿನ ಡೈಜೆಸ್ಟ್',
+                subheading: 'ನಿಮ್ಮ ಕೋರ್ಸ್‌ಗಳಲ್ಲಿ ಹೊಸದೇನಿದೆ ಎಂಬುದು ಇಲ್ಲಿದೆ.',
+                body: markup`
+      <p style="margin-bottom: 15px;">ನಮಸ್ಕಾರ,</p>
+      <p style="margin-bottom: 15px;"><strong>${date}</strong> ರ ನಿಮ್ಮ ಅಪ್‌ಡೇಟ್‌ಗಳು ಇಲ್ಲಿವೆ.</p>
+      ${digestSectionsMarkup(
+          inputs.sections,
+          'ಇತರ ಅಪ್‌ಡೇಟ್‌ಗಳು',
+          branding.primaryColor,
+      )}
+      <p>ವಿವರಗಳಿಗಾಗಿ ನಿಮ್ಮ ಡ್ಯಾಶ್‌ಬೋರ್ಡ್‌ಗೆ ಭೇಟಿ ನೀಡಿ.</p>
+    `,
+            };
+        },
+    },
+};
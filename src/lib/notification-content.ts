@@ -0,0 +1,171 @@
+import { Branding, defaultBranding } from './branding';
+import { appUrl } from './deep-links';
+import { DigestItem, DigestSection } from './digest';
+import { DEFAULT_LOCALE, Locale } from './i18n';
+import { getKindMessages } from './locales';
+import { getKindDefinition } from './notification-kinds';
+import { NotificationKind } from './notification-types';
+import { EmailContent } from './notify-service';
+import { OutgoingWhatsApp } from './text-providers';
+import { fillTemplate } from './text-template';
+
+export interface Recipient {
+    id: string;
+    name?: string | null;
+    role?: 'student' | 'manager';
+    // Set by the dispatcher from the user's notification settings.
+    locale?: Locale;
+    timeZone?: string;
+}
+
+export interface PushContent {
+    title: string;
+    body: string;
+    data?: Record<string, unknown>;
+    // Notification icon; the tenant's app icon.
+    icon?: string;
+}
+
+// A row in the user's in-app inbox.
+export interface InAppContent {
+    title: string;
+    body: string;
+    link?: string;
+}
+
+// An SMS and the matching WhatsApp template message. The link is the last
+// template variable.
+export interface TextContent {
+    body: string;
+    template: OutgoingWhatsApp['template'];
+}
+
+export interface NotificationContent {
+    push?: PushContent;
+    email?: EmailContent;
+    inApp?: InAppContent;
+    text?: TextContent;
+    // Line used instead of the email when the recipient gets a daily digest.
+    digest?: DigestItem;
+}
+
+// Template inputs each notification kind needs, supplied by the task that
+// sends it.
+export interface NotificationInputs {
+    // Deadlines and dates are ISO timestamps, rendered in each recipient's
+    // timezone and language.
+    student_deadline: {
+        courseActivityId: number;
+        runId: number;
+        activityName: string;
+        runName: string;
+        deadline: string;
+    };
+    manager_warning: {
+        courseActivityId: number;
+        runId: number;
+        activityName: string;
+        runName: string;
+        deadline: string;
+    };
+    score_published: {
+        courseActivityId: number;
+        runId: number;
+        activityName: string;
+        runName: string;
+    };
+    activity_posted: {
+        courseActivityId: number;
+        runId: number;
+        activityName: string;
+        runName: string;
+    };
+    redo_enabled: {
+        courseActivityId: number;
+        runId: number;
+        activityName: string;
+        courseInfo: string;
+        newDeadline: string;
+    };
+    added_to_group: {
+        groupId: number;
+        groupName: string;
+    };
+    new_document: {
+        runId: number;
+        documentName: string;
+        documentId?: number;
+        courseName: string;
+    };
+    missed_deadline: {
+        courseActivityId: number;
+        runId: number;
+        activityName: string;
+        runName: string;
+        deadline: string;
+    };
+    facilitator_summary: {
+        courseActivityId: number;
+        runId: number;
+        activityName: string;
+        runName: string;
+        submitted: number;
+        notSubmitted: number;
+    };
+    course_run_finalize: {
+        courseRunId: number;
+        courseName: string;
+        runName: string;
+        endDate: string | null;
+    };
+    password_reset: {
+        resetUrl: string;
+        expiresInMinutes: number;
+    };
+    daily_digest: {
+        date: string;
+        sections: DigestSection[];
+    };
+}
+
+/**
+ * Render a notification for one recipient in their locale (English when
+ * unset) and timezone (IST when unset), using the message catalogs in
+ * ./locales. Links, the push icon and the email layout follow `branding`.
+ */
+export function renderNotificationContent<K extends NotificationKind>(
+    kind: K,
+    inputs: NotificationInputs[K],
+    recipient: Recipient,
+    branding: Branding = defaultBranding(),
+): NotificationContent {
+    const locale = recipient.locale ?? DEFAULT_LOCALE;
+    const messages = getKindMessages(kind, locale);
+    const { link, pushData } = getKindDefinition(kind);
+
+    const push = messages.push?.(inputs, recipient);
+    const email = messages.email?.(inputs, recipient, branding);
+    const text = messages.text?.(inputs, recipient);
+    // A catalog can point the email button elsewhere, e.g. a reset link.
+    const path = link?.(inputs);
+    const url = email?.ctaUrl ?? (path && appUrl(path, branding.appUrl));
+
+    return {
+        push: push && {
+            ...push,
+            data: { ...pushData?.(inputs), url },
+            icon: branding.iconUrl,
+        },
+        email: email && { ...email, ctaUrl: url, locale, branding },
+        inApp: push && { ...push, link: url },
+        text: text && {
+            body: url ? `${fillTemplate(text)} ${url}` : fillTemplate(text),
+            template: {
+                name: kind,
+                language: text.language,
+                variables: url ? [...text.variables, url] : text.variables,
+            },
+        },
+        digest: messages.digest?.(inputs),
+    };
+}
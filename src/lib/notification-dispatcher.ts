@@ -0,0 +1,269 @@
+import { Pool } from 'pg';
+import { DeadLetterContent, DeadLetters } from './dead-letters';
+import { buildIdempotencyKey, DeliveryStatus } from './delivery-log';
+import {
+    NotificationInputs,
+    Recipient,
+    renderNotificationContent,
+} from './notification-content';
+import { KindChannels } from './kind-channels';
+import {
+    NotificationChannel,
+    NotificationContext,
+    NotificationKind,
+    TextChannel,
+} from './notification-types';
+import { NotificationService } from './notify-service';
+import { withRetries } from './retry';
+import { TenantBranding } from './tenants';
+import { positiveIntFromEnv, Throttle } from './throttle';
+import { UserSettings } from './user-settings';
+
+const TEXT_CHANNELS: TextChannel[] = ['sms', 'whatsapp'];
+
+export interface ChannelResult {
+    status: DeliveryStatus;
+    error?: string;
+    attempts?: number;
+    // Set on failures: whether retrying could not have helped.
+    permanent?: boolean;
+}
+
+export interface RecipientResult {
+    userId: string;
+    channels: Partial<Record<NotificationChannel, ChannelResult>>;
+}
+
+export interface DispatchResult {
+    kind: NotificationKind;
+    recipientCount: number;
+    totals: Partial<
+        Record<NotificationChannel, Partial<Record<DeliveryStatus, number>>>
+    >;
+    failedRecipients: string[];
+    recipients: RecipientResult[];
+}
+
+/**
+ * Fans a notification out to a list of recipients on every channel its kind
+ * is configured for (see ./kind-channels), branded for the tenant the
+ * context's course or group belongs to, and reports what happened
+ * per recipient and channel. Each channel is retried on its own, so a
+ * transient email error never resends the push. Failures are captured in
+ * the result rather than thrown, so one bad recipient never stops the rest.
+ */
+export class NotificationDispatcher {
+    private notificationService: NotificationService;
+    private userSettings: UserSettings;
+    private tenantBranding: TenantBranding;
+    private kindChannels: KindChannels;
+    private deadLetters: DeadLetters;
+
+    constructor(pool: Pool) {
+        this.notificationService = new NotificationService(pool);
+        this.userSettings = new UserSettings(pool);
+        this.tenantBranding = new TenantBranding(pool);
+        this.kindChannels = new KindChannels(pool);
+        this.deadLetters = new DeadLetters(pool);
+    }
+
+    async dispatch<K extends NotificationKind>(
+        kind: K,
+        recipients: Recipient[],
+        inputs: NotificationInputs[K],
+        context: Omit<NotificationContext, 'kind'>,
+    ): Promise<DispatchResult> {
+        const fullContext: NotificationContext = { ...context, kind };
+        const kindChannels = await this.kindChannels.get(kind);
+        const settings = await this.userSettings.getMany(
+            recipients.map((recipient) => recipient.id),
+        );
+
+        // Bounds how many recipients are being sent to at once, so a large
+        // group doesn't open hundreds of provider requests together.
+        const throttle = new Throttle({
+            concurrency: positiveIntFromEnv('NOTIFICATION_CONCURRENCY', 20),
+        });
+        const results = await Promise.all(
+            recipients.map((recipient) =>
+                throttle.run(async (): Promise<RecipientResult> => {
+                    const branding = await this.tenantBranding.resolve(
+                        context,
+                        recipient.id,
+                    );
+                    const content = renderNotificationContent(
+                        kind,
+                        inputs,
+                        {
+                            ...recipient,
+                            locale:
+                                recipient.locale ??
+                                settings.get(recipient.id)?.locale,
+                            timeZone:
+                                recipient.timeZone ??
+                                settings.get(recipient.id)?.timeZone,
+                        },
+                        branding,
+                    );
+                    const channels: RecipientResult['channels'] = {};
+
+                    if (content.push && kindChannels.includes('push')) {
+                        const push = content.push;
+                        channels.push = await this.deliver(
+                            fullContext,
+                            recipient,
+                            { channel: 'push', push },
+                            () =>
+                                this.notificationService.sendPushNotification(
+                                    recipient.id,
+                                    push,
+                                    fullContext,
+                                ),
+                        );
+                    }
+                    if (content.email && kindChannels.includes('email')) {
+                        const email = content.email;
+                        channels.email = await this.deliver(
+                            fullContext,
+                            recipient,
+                            { channel: 'email', email },
+                            () =>
+                                this.notificationService.sendEmailNotification(
+                                    recipient.id,
+                                    email,
+                                    fullContext,
+                                    content.digest,
+                                ),
+                        );
+                    }
+
+                    if (content.inApp && kindChannels.includes('in_app')) {
+                        const inApp = content.inApp;
+                        channels.in_app = await this.deliver(
+                            fullContext,
+                            recipient,
+                            { channel: 'in_app', inApp },
+                            () =>
+                                this.notificationService.sendInAppNotification(
+                                    recipient.id,
+                                    inApp,
+                                    fullContext,
+                                ),
+                        );
+                    }
+
+                    for (const channel of TEXT_CHANNELS) {
+                        if (content.text && kindChannels.includes(channel)) {
+                            const text = content.text;
+                            channels[channel] = await this.deliver(
+                                fullContext,
+                                recipient,
+                                { channel, text },
+                                () =>
+                                    this.notificationService.sendTextNotification(
+                                        recipient.id,
+                                        channel,
+                                        text,
+                                        fullContext,
+                                    ),
+                            );
+                        }
+                    }
+
+                    return { userId: recipient.id, channels };
+                }),
+            ),
+        );
+
+        return summarize(kind, results);
+    }
+
+    /**
+     * Send on one channel, retrying transient failures with backoff. A
+     * delivery that fails for good goes to the dead-letter store with the
+     * content it would have sent.
+     */
+    private async deliver(
+        context: NotificationContext,
+        recipient: Recipient,
+        content: DeadLetterContent,
+        send: () => Promise<DeliveryStatus>,
+    ): Promise<ChannelResult> {
+        const { channel } = content;
+        const result = await withRetries(
+            send,
+            undefined,
+            (error, retry, delayMs) =>
+                console.warn(
+                    `Retrying ${channel} notification (${context.kind}) to userId: ${recipient.id} in ${delayMs}ms (retry ${retry})`,
+                    error,
+                ),
+        );
+        if (result.ok) {
+            return { status: result.value, attempts: result.attempts };
+        }
+
+        const error =
+            result.error instanceof Error
+                ? result.error.message
+                : String(result.error);
+        console.error(
+            `Failed to send ${channel} notification (${context.kind}) to userId: ${recipient.id} after ${result.attempts} attempt(s)`,
+            result.error,
+        );
+        await this.deadLetters.add({
+            userId: recipient.id,
+            context,
+            content,
+            idempotencyKey: buildIdempotencyKey(context, recipient.id),
+            error,
+            permanent: result.permanent,
+            attempts: result.attempts,
+        });
+        return {
+            status: 'failed',
+            error,
+            attempts: result.attempts,
+            permanent: result.permanent,
+        };
+    }
+}
+
+/**
+ * Totals per channel and status, and the recipients who failed on any
+ * channel.
+ */
+export function summarize(
+    kind: NotificationKind,
+    recipients: RecipientResult[],
+): DispatchResult {
+    const totals: DispatchResult['totals'] = {};
+    const failedRecipients: string[] = [];
+
+    for (const recipient of recipients) {
+        let failed = false;
+        for (const [channel, result] of Object.entries(recipient.channels)) {
+            const channelTotals = (totals[channel as NotificationChannel] ??=
+                {});
+            channelTotals[result.status] =
+                (channelTotals[result.status] ?? 0) + 1;
+            failed ||= result.status === 'failed';
+        }
+        if (failed) failedRecipients.push(recipient.userId);
+    }
+
+    if (failedRecipients.length) {
+        console.error(
+            `Failed ${kind} notifications for ${failedRecipients.length} recipient(s):`,
+            failedRecipients,
+        );
+    }
+
+    return {
+        kind,
+        recipientCount: recipients.length,
+        totals,
+        failedRecipients,
+        recipients,
+    };
+}
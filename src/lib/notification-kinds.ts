@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import type { NotificationInputs } from './notification-content';
+import { NotificationChannel, NotificationKind } from './notification-types';
+import type { Audience } from './recipients';
+import { deepLinks } from './deep-links';
+import {
+    activityDeadlineSchema,
+    deadlineSchema,
+    idSchema,
+    linkUrlSchema,
+    recipientFilterSchema,
+    userIdSchema,
+} from './schemas';
+
+// How long a notification can wait:
+// - urgent: sent straight away, even during the user's quiet hours.
+// - normal: push waits for the user's quiet hours to end.
+// - low: as normal, and the email can wait for the user's daily digest.
+export type Urgency = 'urgent' | 'normal' | 'low';
+
+export interface NotificationKindDefinition<K extends NotificationKind> {
+    // Payload of the task that sends this kind, validated before it runs.
+    // Null for kinds sent by a scheduled task.
+    payload: z.ZodTypeAny | null;
+    recipients: Audience;
+    // Default channels; the notification_kind_channels table can override
+    // them per kind (see ./kind-channels).
+    channels: NotificationChannel[];
+    urgency: Urgency;
+    // The text of each kind lives in the message catalogs (./locales); the
+    // rest of its template is the same in every language: the page it links
+    // to, used for the email button, push data.url and the inbox entry, and
+    // the ids the app gets in push data. Links are paths in the web app,
+    // resolved against the recipient's tenant's app URL.
+    link?: (inputs: NotificationInputs[K]) => string;
+    pushData?: (inputs: NotificationInputs[K]) => Record<string, unknown>;
+}
+
+type NotificationKindRegistry = {
+    [K in NotificationKind]: NotificationKindDefinition<K>;
+};
+
+export const notificationKinds = {
+    student_deadline: {
+        payload: activityDeadlineSchema
+            .extend({
+                reminderOffsetMinutes: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional(),
+            })
+            .merge(recipientFilterSchema),
+        recipients: 'group_students',
+        channels: ['push', 'email', 'in_app'],
+        // Held at the task level instead; see sendStudentDeadlineNotification.
+        urgency: 'urgent',
+        link: (inputs) =>
+            deepLinks.activity(inputs.runId, inputs.courseActivityId),
+        pushData: (inputs) => ({
+            courseActivityId: inputs.courseActivityId,
+            runId: inputs.runId,
+            deadline: inputs.deadline,
+        }),
+    },
+
+    manager_warning: {
+        payload: activityDeadlineSchema,
+        recipients: 'course_managers',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'urgent',
+        link: (inputs) =>
+            deepLinks.activity(inputs.runId, inputs.courseActivityId),
+        pushData: (inputs) => ({
+            courseActivityId: inputs.courseActivityId,
+            runId: inputs.runId,
+            deadline: inputs.deadline,
+        }),
+    },
+
+    score_published: {
+        payload: z
+            .object({ courseActivityId: idSchema, runId: idSchema })
+            .merge(recipientFilterSchema),
+        recipients: 'group_students',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'low',
+        link: (inputs) =>
+            deepLinks.grades(inputs.runId, inputs.courseActivityId),
+        pushData: (inputs) => ({
+            courseActivityId: inputs.courseActivityId,
+            runId: inputs.runId,
+        }),
+    },
+
+    activity_posted: {
+        payload: z
+            .object({ courseActivityId: idSchema, runId: idSchema })
+            .merge(recipientFilterSchema),
+        recipients: 'group_students',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'low',
+        link: (inputs) =>
+            deepLinks.activity(inputs.runId, inputs.courseActivityId),
+        pushData: (inputs) => ({
+            courseActivityId: inputs.courseActivityId,
+            runId: inputs.runId,
+        }),
+    },
+
+    redo_enabled: {
+        payload: z.object({
+            userId: userIdSchema,
+            courseActivityId: idSchema,
+            newDeadline: deadlineSchema,
+            runId: idSchema,
+        }),
+        recipients: 'user',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'normal',
+        link: (inputs) =>
+            deepLinks.activity(inputs.runId, inputs.courseActivityId),
+        pushData: (inputs) => ({
+            courseActivityId: inputs.courseActivityId,
+            runId: inputs.runId,
+            deadline: inputs.newDeadline,
+        }),
+    },
+
+    added_to_group: {
+        payload: z.object({ userId: userIdSchema, groupId: idSchema }),
+        recipients: 'user',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'low',
+        link: (inputs) => deepLinks.group(inputs.groupId),
+        pushData: (inputs) => ({ groupId: inputs.groupId }),
+    },
+
+    new_document: {
+        payload: z
+            .object({
+                runId: idSchema,
+                documentName: z.string().trim().min(1),
+                documentId: idSchema.optional(),
+            })
+            .merge(recipientFilterSchema),
+        recipients: 'group_students_and_course_managers',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'low',
+        link: (inputs) => deepLinks.document(inputs.runId, inputs.documentId),
+        pushData: (inputs) => ({
+            runId: inputs.runId,
+            documentId: inputs.documentId,
+            documentName: inputs.documentName,
+        }),
+    },
+
+    missed_deadline: {
+        payload: activityDeadlineSchema.merge(recipientFilterSchema),
+        recipients: 'group_students',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'normal',
+        link: (inputs) =>
+            deepLinks.activity(inputs.runId, inputs.courseActivityId),
+        pushData: (inputs) => ({
+            courseActivityId: inputs.courseActivityId,
+            runId: inputs.runId,
+            deadline: inputs.deadline,
+        }),
+    },
+
+    facilitator_summary: {
+        payload: activityDeadlineSchema,
+        recipients: 'course_managers',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'normal',
+        link: (inputs) =>
+            deepLinks.activity(inputs.runId, inputs.courseActivityId),
+        pushData: (inputs) => ({
+            courseActivityId: inputs.courseActivityId,
+            runId: inputs.runId,
+            submitted: inputs.submitted,
+            notSubmitted: inputs.notSubmitted,
+        }),
+    },
+
+    course_run_finalize: {
+        payload: z.object({ courseRunId: idSchema }),
+        recipients: 'course_managers',
+        channels: ['push', 'email', 'in_app'],
+        urgency: 'normal',
+        link: (inputs) => deepLinks.courseRun(inputs.courseRunId),
+        pushData: (inputs) => ({ runId: inputs.courseRunId }),
+    },
+
+    password_reset: {
+        payload: z.object({
+            userId: userIdSchema,
+            resetUrl: linkUrlSchema,
+            expiresInMinutes: z.number().int().positive(),
+        }),
+        recipients: 'user',
+        channels: ['email'],
+        urgency: 'urgent',
+    },
+
+    daily_digest: {
+        payload: null,
+        recipients: 'user',
+        channels: ['email'],
+        urgency: 'normal',
+        link: () => deepLinks.dashboard(),
+    },
+} satisfies NotificationKindRegistry;
+
+export function getKindDefinition<K extends NotificationKind>(
+    kind: K,
+): NotificationKindDefinition<K> {
+    return notificationKinds[kind] as NotificationKindDefinition<K>;
+}
+
+export function kindsWithUrgency(urgency: Urgency): NotificationKind[] {
+    return (Object.keys(notificationKinds) as NotificationKind[]).filter(
+        (kind) => notificationKinds[kind].urgency === urgency,
+    );
+}
@@ -0,0 +1,43 @@
+export const NOTIFICATION_CHANNELS = [
+    'push',
+    'email',
+    'in_app',
+    'sms',
+    'whatsapp',
+] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// Channels that deliver a short text to the user's phone number.
+export type TextChannel = Extract<NotificationChannel, 'sms' | 'whatsapp'>;
+
+export const NOTIFICATION_KINDS = [
+    'student_deadline',
+    'manager_warning',
+    'score_published',
+    'activity_posted',
+    'redo_enabled',
+    'added_to_group',
+    'new_document',
+    'missed_deadline',
+    'facilitator_summary',
+    'course_run_finalize',
+    'password_reset',
+    'daily_digest',
+] as const;
+
+export type NotificationKind = (typeof NOTIFICATION_KINDS)[number];
+
+// Identifies what a notification is about, so each delivery attempt can be
+// traced back to the activity/run/group and the Trigger.dev run that sent it.
+export interface NotificationContext {
+    kind: NotificationKind;
+    courseId?: number;
+    courseActivityId?: number;
+    runId?: number;
+    groupId?: number;
+    // Distinguishes sends that share the same ids, e.g. the deadline a
+    // reminder was for or the name of a newly added document.
+    reference?: string;
+    taskRunId?: string;
+}
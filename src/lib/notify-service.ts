@@ -1,10 +1,52 @@
+import { tasks } from '@trigger.dev/sdk/v3';
 import { Pool } from 'pg';
 import webpush from 'web-push';
-import { SendMailClient } from 'zeptomail';
-import { generateEmailTemplate } from './email-template';
+import type { deliverDeferredPush } from '../trigger/deferred-push';
+import {
+    buildIdempotencyKey,
+    DeliveryLog,
+    DeliveryStatus,
+} from './delivery-log';
+import { Branding, defaultBranding } from './branding';
+import { DIGEST_KINDS, DigestItem, DigestQueue } from './digest';
+import { generateEmailTemplate, generateEmailText } from './email-template';
+import { SafeHtml } from './html';
+import { Locale } from './i18n';
+import { Inbox } from './inbox';
+import { EmailPipeline } from './email-pipeline';
+import { EmailSuppressions } from './email-suppressions';
+import { EmailSendResult, getEmailTransport } from './email-transport';
+import {
+    EmailTracking,
+    emailTracking,
+    trackingMergeFields,
+} from './email-tracking';
+import type {
+    InAppContent,
+    PushContent,
+    TextContent,
+} from './notification-content';
+import {
+    NotificationChannel,
+    NotificationContext,
+    TextChannel,
+} from './notification-types';
+import { NotificationPreferences } from './preferences';
+import {
+    isExpiredSubscription,
+    isGonePushError,
+    PushSubscriptions,
+} from './push-subscriptions';
+import {
+    isQuietTime,
+    QUIET_HOURS_EXEMPT_KINDS,
+    quietHoursEnd,
+} from './quiet-hours';
+import { DeliveryError, isPermanentError, withRetries } from './retry';
+import { getTextMessageProvider } from './text-providers';
+import { UserSettings } from './user-settings';
 
 let webpushInitialized = false;
-let zeptoClient: SendMailClient | null = null;
 
 function initializeWebPush() {
     if (!webpushInitialized) {
@@ -26,41 +68,39 @@ function initializeWebPush() {
     }
 }
 
-function getZeptoClient() {
-    if (!zeptoClient) {
-        const ZEPTO_URL =
-            process.env.ZEPTO_URL || 'https://api.zeptomail.in/v1.1/email';
-        const ZEPTO_TOKEN = process.env.ZEPTO_TOKEN;
+let emailPipeline: EmailPipeline | null = null;
 
-        if (!ZEPTO_TOKEN) {
-            console.error('❌ ZEPTO_TOKEN environment variable is not set!');
-            throw new Error('ZEPTO_TOKEN is required for email notifications');
-        }
-
-        zeptoClient = new SendMailClient({
-            url: ZEPTO_URL,
-            token: ZEPTO_TOKEN,
-        });
-    }
-    return zeptoClient;
+// Throttles and batches calls to the transport picked by EMAIL_TRANSPORT.
+function getEmailPipeline(): EmailPipeline {
+    emailPipeline ??= new EmailPipeline(getEmailTransport());
+    return emailPipeline;
 }
 
-interface EmailParams {
-    to: string;
+export interface EmailContent {
     subject: string;
     heading: string;
     subheading: string;
-    body: string;
+    body: SafeHtml;
     ctaText?: string;
     ctaUrl?: string;
+    // Language of the layout around the body; defaults to English.
+    locale?: Locale;
+    // Logos, colours, sign-off and sender; defaults to defaultBranding().
+    branding?: Branding;
 }
 
-async function sendZeptoMail(params: EmailParams) {
+interface EmailParams extends EmailContent {
+    to: string;
+    tracking?: EmailTracking;
+}
+
+async function sendEmail(params: EmailParams): Promise<EmailSendResult> {
     try {
-        const client = getZeptoClient();
-        const ZEPTO_FROM_ADDRESS =
-            process.env.ZEPTO_FROM_ADDRESS || 'tech@xcelerator.co.in';
-        const ZEPTO_FROM_NAME = process.env.ZEPTO_FROM_NAME || 'LearnX';
+        const pipeline = getEmailPipeline();
+        const branding = params.branding ?? defaultBranding();
+        // The transport fills in each recipient's tracking URLs, so the same
+        // notification still batches with tracking on.
+        const tracked = params.tracking && trackingMergeFields(params.tracking);
 
         const htmlTemplate = generateEmailTemplate({
             heading: params.heading,
@@ -68,129 +108,509 @@ async function sendZeptoMail(params: EmailParams) {
             body: params.body,
             ctaText: params.ctaText,
             ctaUrl: params.ctaUrl,
+            locale: params.locale,
+            branding,
+            tracking: tracked?.tracking,
         });
 
-        const plainTextBody = params.body
-            .replace(/<[^>]*>/g, '')
-            .replace(/\s+/g, ' ')
-            .trim();
+        const plainTextBody = generateEmailText({
+            heading: params.heading,
+            subheading: params.subheading,
+            body: params.body,
+            ctaText: params.ctaText,
+            ctaUrl: params.ctaUrl,
+            locale: params.locale,
+            branding,
+        });
 
-        const result = await client.sendMail({
+        return await pipeline.send({
             from: {
-                address: ZEPTO_FROM_ADDRESS,
-                name: ZEPTO_FROM_NAME,
+                address: branding.fromAddress,
+                name: branding.fromName,
             },
-            to: [
-                {
-                    email_address: {
-                        address: params.to,
-                        name: params.to,
-                    },
-                },
-            ],
+            to: params.to,
             subject: params.subject,
-            textbody: plainTextBody,
-            htmlbody: htmlTemplate,
+            text: plainTextBody,
+            html: htmlTemplate,
+            mergeFields: tracked?.mergeFields,
         });
-
-        return result;
     } catch (error) {
-        console.error(`❌ Zepto mail error for ${params.to}:`, error);
-        throw new Error(
+        console.error(`❌ Email error for ${params.to}:`, error);
+        throw new DeliveryError(
             `Failed to send email to ${params.to}: ${error instanceof Error ? error.message : String(error)}`,
+            { permanent: isPermanentError(error) },
         );
     }
 }
 
 export class NotificationService {
     private pool: Pool;
+    private deliveryLog: DeliveryLog;
+    private preferences: NotificationPreferences;
+    private pushSubscriptions: PushSubscriptions;
+    private digestQueue: DigestQueue;
+    private inbox: Inbox;
+    private userSettings: UserSettings;
+    private emailSuppressions: EmailSuppressions;
 
     constructor(pool: Pool) {
         this.pool = pool;
+        this.deliveryLog = new DeliveryLog(pool);
+        this.preferences = new NotificationPreferences(pool);
+        this.pushSubscriptions = new PushSubscriptions(pool);
+        this.digestQueue = new DigestQueue(pool);
+        this.inbox = new Inbox(pool);
+        this.userSettings = new UserSettings(pool);
+        this.emailSuppressions = new EmailSuppressions(pool);
+    }
+
+    /**
+     * Checks preferences and idempotency before a send. Returns the status the
+     * send resolved to if it must not go out, or null if it should proceed.
+     */
+    private async checkBeforeSend(
+        userId: string,
+        channel: NotificationChannel,
+        context: NotificationContext,
+        idempotencyKey: string,
+    ): Promise<DeliveryStatus | null> {
+        let status: DeliveryStatus | null = null;
+        if (
+            !(await this.preferences.isEnabled(
+                userId,
+                context.kind,
+                channel,
+                context.courseId,
+            ))
+        ) {
+            status = 'suppressed';
+        } else if (
+            await this.deliveryLog.hasSucceeded(idempotencyKey, channel)
+        ) {
+            status = 'duplicate';
+        }
+
+        if (status) {
+            await this.deliveryLog.record({
+                userId,
+                channel,
+                context,
+                status,
+                idempotencyKey,
+            });
+        }
+        return status;
     }
 
+    /**
+     * Send a push notification, or hand it to a delayed run that sends it
+     * when the user's quiet hours end if it isn't time-critical. It counts
+     * as sent once any of the user's devices gets it.
+     */
     async sendPushNotification(
         userId: string,
-        payload: { title: string; body: string; data?: any },
-    ) {
+        payload: PushContent,
+        context: NotificationContext,
+        options: { ignoreQuietHours?: boolean } = {},
+    ): Promise<DeliveryStatus> {
+        const idempotencyKey = buildIdempotencyKey(context, userId);
+        const skippedStatus = await this.checkBeforeSend(
+            userId,
+            'push',
+            context,
+            idempotencyKey,
+        );
+        if (skippedStatus) return skippedStatus;
+
+        if (
+            !options.ignoreQuietHours &&
+            !QUIET_HOURS_EXEMPT_KINDS.includes(context.kind)
+        ) {
+            const { timeZone, quietHours } =
+                await this.userSettings.get(userId);
+            const now = new Date();
+            if (isQuietTime(now, timeZone, quietHours)) {
+                const sendAt = quietHoursEnd(now, timeZone, quietHours);
+                await tasks.trigger<typeof deliverDeferredPush>(
+                    'deliver-deferred-push',
+                    { userId, push: payload, context },
+                    {
+                        delay: sendAt.toISOString(),
+                        // A retried task must not schedule the push twice.
+                        idempotencyKey: `deferred_push:${idempotencyKey}`,
+                        // Tagged like the deadline jobs, so moving the
+                        // deadline (see rescheduleActivityDeadline) cancels
+                        // a reminder still waiting out quiet hours.
+                        tags: [
+                            `user_${userId}`,
+                            context.kind,
+                            'deferred_push',
+                            ...(context.courseActivityId !== undefined
+                                ? [`activity_${context.courseActivityId}`]
+                                : []),
+                            ...(context.runId !== undefined
+                                ? [`run_${context.runId}`]
+                                : []),
+                        ],
+                    },
+                );
+                await this.deliveryLog.record({
+                    userId,
+                    channel: 'push',
+                    context,
+                    status: 'deferred',
+                    idempotencyKey,
+                });
+                return 'deferred';
+            }
+        }
+
         initializeWebPush();
-        const subsRes = await this.pool.query(
-            `SELECT subscription FROM notification_records WHERE user_id = $1 AND is_active = 1`,
-            [userId],
+        const subscriptions = [];
+        for (const record of await this.pushSubscriptions.getActive(userId)) {
+            if (isExpiredSubscription(record.subscription)) {
+                await this.pushSubscriptions.deactivate(record.id, 'expired');
+            } else {
+                subscriptions.push(record);
+            }
+        }
+
+        if (!subscriptions.length) {
+            await this.deliveryLog.record({
+                userId,
+                channel: 'push',
+                context,
+                status: 'skipped',
+                idempotencyKey,
+                error: 'No active push subscriptions',
+            });
+            return 'skipped';
+        }
+
+        // Each device is retried on its own, so a device that already got
+        // the push never gets it twice.
+        const message = JSON.stringify({
+            title: payload.title,
+            body: payload.body,
+            data: payload.data || {},
+            icon: payload.icon,
+        });
+        const results = await Promise.all(
+            subscriptions.map((record) =>
+                withRetries(() =>
+                    // Subscriptions without keys are rejected by web-push
+                    // and logged like any other failed device.
+                    webpush.sendNotification(
+                        record.subscription as webpush.PushSubscription,
+                        message,
+                    ),
+                ),
+            ),
         );
-        await Promise.all(
-            subsRes.rows.map((subRow: any) => {
-                let subscription: any = subRow.subscription;
-                if (typeof subscription === 'string') {
-                    try {
-                        subscription = JSON.parse(subscription);
-                    } catch {
-                        console.warn(
-                            'Invalid subscription JSON for user',
-                            userId,
-                        );
-                        return;
-                    }
-                }
-                if (
-                    !subscription ||
-                    typeof subscription !== 'object' ||
-                    !subscription.endpoint
-                ) {
-                    console.warn(
-                        'Skipping invalid subscription for user',
-                        userId,
-                        subscription,
-                    );
-                    return;
-                }
-                return webpush.sendNotification(
-                    subscription,
-                    JSON.stringify({
-                        title: payload.title,
-                        body: payload.body,
-                        data: payload.data || {},
-                    }),
+
+        const locations: string[] = [];
+        const errors: unknown[] = [];
+        let goneCount = 0;
+        for (const [index, result] of results.entries()) {
+            if (result.ok) {
+                const location = result.value?.headers?.location;
+                if (location) locations.push(location);
+            } else if (isGonePushError(result.error)) {
+                goneCount++;
+                await this.pushSubscriptions.deactivate(
+                    subscriptions[index].id,
+                    `gone_${result.error.statusCode}`,
                 );
-            }),
+            } else {
+                errors.push(result.error);
+            }
+        }
+        const delivered = subscriptions.length - goneCount - errors.length;
+        const errorMessage = errors.length
+            ? `Failed on ${errors.length} of ${subscriptions.length} device(s): ${
+                  errors[0] instanceof Error
+                      ? errors[0].message
+                      : String(errors[0])
+              }`
+            : undefined;
+
+        if (errors.length && !delivered) {
+            await this.deliveryLog.record({
+                userId,
+                channel: 'push',
+                context,
+                status: 'failed',
+                idempotencyKey,
+                error: errorMessage,
+            });
+            // Every device has had its retries already.
+            throw new DeliveryError(errorMessage!, { permanent: true });
+        }
+
+        if (goneCount === subscriptions.length) {
+            await this.deliveryLog.record({
+                userId,
+                channel: 'push',
+                context,
+                status: 'skipped',
+                idempotencyKey,
+                error: 'All push subscriptions are gone or expired',
+            });
+            return 'skipped';
+        }
+
+        await this.deliveryLog.record({
+            userId,
+            channel: 'push',
+            context,
+            status: 'sent',
+            idempotencyKey,
+            providerResponseId: locations.length
+                ? locations.join(',')
+                : undefined,
+            error: errorMessage,
+        });
+        return 'sent';
+    }
+
+    /**
+     * Add a notification to the user's in-app inbox. Quiet hours don't
+     * apply: the inbox makes no sound.
+     */
+    async sendInAppNotification(
+        userId: string,
+        item: InAppContent,
+        context: NotificationContext,
+    ): Promise<DeliveryStatus> {
+        const idempotencyKey = buildIdempotencyKey(context, userId);
+        const skippedStatus = await this.checkBeforeSend(
+            userId,
+            'in_app',
+            context,
+            idempotencyKey,
         );
+        if (skippedStatus) return skippedStatus;
+
+        try {
+            const added = await this.inbox.add(
+                userId,
+                item,
+                context,
+                idempotencyKey,
+            );
+            const status: DeliveryStatus = added ? 'sent' : 'duplicate';
+            await this.deliveryLog.record({
+                userId,
+                channel: 'in_app',
+                context,
+                status,
+                idempotencyKey,
+            });
+            return status;
+        } catch (error) {
+            await this.deliveryLog.record({
+                userId,
+                channel: 'in_app',
+                context,
+                status: 'failed',
+                idempotencyKey,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw error;
+        }
     }
 
+    /**
+     * Send an SMS, or the matching WhatsApp template message to users who
+     * opted in to WhatsApp. Users without a valid phone number are skipped.
+     */
+    async sendTextNotification(
+        userId: string,
+        channel: TextChannel,
+        text: TextContent,
+        context: NotificationContext,
+    ): Promise<DeliveryStatus> {
+        const idempotencyKey = buildIdempotencyKey(context, userId);
+        const skippedStatus = await this.checkBeforeSend(
+            userId,
+            channel,
+            context,
+            idempotencyKey,
+        );
+        if (skippedStatus) return skippedStatus;
+
+        const { phoneNumber, whatsAppOptIn } =
+            await this.userSettings.get(userId);
+        if (!phoneNumber || (channel === 'whatsapp' && !whatsAppOptIn)) {
+            await this.deliveryLog.record({
+                userId,
+                channel,
+                context,
+                status: 'skipped',
+                idempotencyKey,
+                error: phoneNumber
+                    ? 'User has not opted in to WhatsApp'
+                    : 'No phone number on file',
+            });
+            return 'skipped';
+        }
+
+        try {
+            const provider = getTextMessageProvider();
+            const result =
+                channel === 'sms'
+                    ? await provider.sendSms({
+                          to: phoneNumber,
+                          body: text.body,
+                      })
+                    : await provider.sendWhatsApp({
+                          to: phoneNumber,
+                          template: text.template,
+                          body: text.body,
+                      });
+            await this.deliveryLog.record({
+                userId,
+                channel,
+                context,
+                status: 'sent',
+                idempotencyKey,
+                recipientAddress: phoneNumber,
+                providerResponseId: result.messageId,
+            });
+            return 'sent';
+        } catch (error) {
+            await this.deliveryLog.record({
+                userId,
+                channel,
+                context,
+                status: 'failed',
+                idempotencyKey,
+                recipientAddress: phoneNumber,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Send an email, or queue `digest` for the user's daily digest instead
+     * when they have digests turned on and the kind can wait. Addresses that
+     * bounced hard or complained (see ./email-suppressions) are not emailed.
+     */
     async sendEmailNotification(
         userId: string,
-        subject: string,
-        heading: string,
-        subheading: string,
-        body: string,
-        ctaText?: string,
-        ctaUrl?: string,
-    ) {
+        email: EmailContent,
+        context: NotificationContext,
+        digest?: DigestItem,
+    ): Promise<DeliveryStatus> {
+        const idempotencyKey = buildIdempotencyKey(context, userId);
+        const skippedStatus = await this.checkBeforeSend(
+            userId,
+            'email',
+            context,
+            idempotencyKey,
+        );
+        if (skippedStatus) return skippedStatus;
+
+        if (
+            digest &&
+            DIGEST_KINDS.includes(context.kind) &&
+            (await this.digestQueue.isDigestEnabled(userId))
+        ) {
+            const queued = await this.digestQueue.enqueue(
+                userId,
+                digest,
+                context,
+                idempotencyKey,
+            );
+            const status: DeliveryStatus = queued ? 'queued' : 'duplicate';
+            await this.deliveryLog.record({
+                userId,
+                channel: 'email',
+                context,
+                status,
+                idempotencyKey,
+            });
+            return status;
+        }
+
+        let address: string | undefined;
         try {
             const userRes = await this.pool.query(
                 `SELECT email FROM users WHERE id = $1`,
                 [userId],
             );
-            const email = userRes.rows[0]?.email;
+            address = userRes.rows[0]?.email;
 
-            if (!email) {
+            if (!address) {
                 console.warn(`No email found for userId: ${userId}`);
-                return;
+                await this.deliveryLog.record({
+                    userId,
+                    channel: 'email',
+                    context,
+                    status: 'skipped',
+                    idempotencyKey,
+                    error: 'No email address on file',
+                });
+                return 'skipped';
+            }
+
+            // Users who marked us as spam still get password resets they
+            // asked for; a hard-bounced address gets nothing.
+            const suppression = await this.emailSuppressions.get(address);
+            if (
+                suppression &&
+                !(
+                    suppression.reason === 'complaint' &&
+                    context.kind === 'password_reset'
+                )
+            ) {
+                await this.deliveryLog.record({
+                    userId,
+                    channel: 'email',
+                    context,
+                    status: 'suppressed',
+                    idempotencyKey,
+                    recipientAddress: address,
+                    error: `Address suppressed after ${suppression.reason}`,
+                });
+                return 'suppressed';
             }
 
-            await sendZeptoMail({
-                to: email,
-                subject,
-                heading,
-                subheading,
-                body,
-                ctaText,
-                ctaUrl,
+            const result = await sendEmail({
+                ...email,
+                to: address,
+                tracking: emailTracking({
+                    idempotencyKey,
+                    userId,
+                    kind: context.kind,
+                    runId: context.runId,
+                }),
             });
+            await this.deliveryLog.record({
+                userId,
+                channel: 'email',
+                context,
+                status: 'sent',
+                idempotencyKey,
+                recipientAddress: address,
+                providerResponseId: result.messageId,
+            });
+            return 'sent';
         } catch (error) {
             console.error(
                 `Failed to send email notification to userId: ${userId}`,
                 error,
             );
+            await this.deliveryLog.record({
+                userId,
+                channel: 'email',
+                context,
+                status: 'failed',
+                idempotencyKey,
+                recipientAddress: address,
+                error: error instanceof Error ? error.message : String(error),
+            });
             throw error;
         }
     }
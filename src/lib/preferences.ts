@@ -0,0 +1,107 @@
+import { Pool } from 'pg';
+import { NotificationChannel, NotificationKind } from './notification-types';
+
+export interface NotificationPreference {
+    kind: NotificationKind | null;
+    channel: NotificationChannel | null;
+    courseId: number | null;
+    enabled: boolean;
+}
+
+// Security-related mail must always reach the user regardless of opt-outs.
+const MANDATORY_KINDS: NotificationKind[] = ['password_reset'];
+
+// A preference scoped to a course outranks one scoped to a kind, which
+// outranks one scoped to a channel; ties cannot happen because each scope
+// combination is unique per user.
+function specificity(preference: NotificationPreference): number {
+    return (
+        (preference.courseId !== null ? 4 : 0) +
+        (preference.kind !== null ? 2 : 0) +
+        (preference.channel !== null ? 1 : 0)
+    );
+}
+
+/**
+ * Resolves per-user notification opt-outs from notification_preferences.
+ * Everything is enabled unless a matching preference says otherwise.
+ */
+export class NotificationPreferences {
+    private pool: Pool;
+    private cache = new Map<string, NotificationPreference[]>();
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    async isEnabled(
+        userId: string,
+        kind: NotificationKind,
+        channel: NotificationChannel,
+        courseId?: number,
+    ): Promise<boolean> {
+        if (MANDATORY_KINDS.includes(kind)) return true;
+
+        const matching = (await this.getPreferences(userId)).filter(
+            (preference) =>
+                (preference.kind === null || preference.kind === kind) &&
+                (preference.channel === null ||
+                    preference.channel === channel) &&
+                (preference.courseId === null ||
+                    preference.courseId === courseId),
+        );
+        if (!matching.length) return true;
+
+        matching.sort((a, b) => specificity(b) - specificity(a));
+        return matching[0].enabled;
+    }
+
+    async setPreference(
+        userId: string,
+        preference: NotificationPreference,
+    ): Promise<void> {
+        await this.pool.query(
+            `INSERT INTO notification_preferences (user_id, kind, channel, course_id, enabled)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, COALESCE(kind, ''), COALESCE(channel, ''), COALESCE(course_id, 0))
+       DO UPDATE SET enabled = EXCLUDED.enabled, updated_at = NOW()`,
+            [
+                userId,
+                preference.kind,
+                preference.channel,
+                preference.courseId,
+                preference.enabled,
+            ],
+        );
+        this.cache.delete(userId);
+    }
+
+    /**
+     * The user's preferences as stored, read fresh rather than from the
+     * cache isEnabled uses.
+     */
+    async list(userId: string): Promise<NotificationPreference[]> {
+        const res = await this.pool.query(
+            `SELECT kind, channel, course_id, enabled
+       FROM notification_preferences WHERE user_id = $1`,
+            [userId],
+        );
+        return res.rows.map((row: any) => ({
+            kind: row.kind,
+            channel: row.channel,
+            courseId: row.course_id,
+            enabled: row.enabled,
+        }));
+    }
+
+    private async getPreferences(
+        userId: string,
+    ): Promise<NotificationPreference[]> {
+        const cached = this.cache.get(userId);
+        if (cached) return cached;
+
+        const preferences = await this.list(userId);
+        this.cache.set(userId, preferences);
+        return preferences;
+    }
+}
@@ -0,0 +1,170 @@
+import { Pool } from 'pg';
+
+export interface PushSubscriptionRecord {
+    id: number;
+    subscription: {
+        endpoint: string;
+        expirationTime?: number | null;
+        keys?: Record<string, string>;
+    };
+}
+
+export interface StaleSubscriptionReport {
+    userId: string;
+    activeCount: number;
+    deactivatedCount: number;
+    reasons: Record<string, number>;
+    lastDeactivatedAt: Date | null;
+}
+
+// Push services answer 404/410 once a browser subscription is gone for good;
+// retrying those endpoints can never succeed.
+const GONE_STATUS_CODES = [404, 410];
+
+export function isGonePushError(
+    error: unknown,
+): error is { statusCode: number } {
+    const statusCode = (error as { statusCode?: number } | null)?.statusCode;
+    return statusCode !== undefined && GONE_STATUS_CODES.includes(statusCode);
+}
+
+export function isExpiredSubscription(
+    subscription: PushSubscriptionRecord['subscription'],
+    now: Date = new Date(),
+): boolean {
+    return (
+        typeof subscription.expirationTime === 'number' &&
+        subscription.expirationTime <= now.getTime()
+    );
+}
+
+function parseSubscription(
+    raw: unknown,
+): PushSubscriptionRecord['subscription'] | null {
+    let subscription: any = raw;
+    if (typeof subscription === 'string') {
+        try {
+            subscription = JSON.parse(subscription);
+        } catch {
+            return null;
+        }
+    }
+    if (
+        !subscription ||
+        typeof subscription !== 'object' ||
+        !subscription.endpoint
+    ) {
+        return null;
+    }
+    return subscription;
+}
+
+/**
+ * Web-push subscriptions stored in notification_records, including
+ * deactivation of endpoints the push service reports as gone or expired.
+ */
+export class PushSubscriptions {
+    private pool: Pool;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    async getActive(userId: string): Promise<PushSubscriptionRecord[]> {
+        const subsRes = await this.pool.query(
+            `SELECT id, subscription FROM notification_records WHERE user_id = $1 AND is_active = 1`,
+            [userId],
+        );
+        const records: PushSubscriptionRecord[] = [];
+        for (const row of subsRes.rows) {
+            const subscription = parseSubscription(row.subscription);
+            if (!subscription) {
+                console.warn(
+                    'Skipping invalid subscription for user',
+                    userId,
+                    row.subscription,
+                );
+                continue;
+            }
+            records.push({ id: row.id, subscription });
+        }
+        return records;
+    }
+
+    async deactivate(id: number, reason: string): Promise<void> {
+        await this.pool.query(
+            `UPDATE notification_records
+       SET is_active = 0, deactivated_at = NOW(), deactivation_reason = $2, updated_at = NOW()
+       WHERE id = $1 AND is_active = 1`,
+            [id, reason],
+        );
+    }
+
+    /**
+     * Deactivate active subscriptions whose expirationTime has passed.
+     * Returns the number of subscriptions deactivated.
+     */
+    async deactivateExpired(now: Date = new Date()): Promise<number> {
+        const subsRes = await this.pool.query(
+            `SELECT id, subscription FROM notification_records WHERE is_active = 1`,
+        );
+        let deactivated = 0;
+        for (const row of subsRes.rows) {
+            const subscription = parseSubscription(row.subscription);
+            if (subscription && isExpiredSubscription(subscription, now)) {
+                await this.deactivate(row.id, 'expired');
+                deactivated++;
+            }
+        }
+        return deactivated;
+    }
+
+    /**
+     * Per-user summary of subscriptions deactivated since the given time,
+     * alongside how many active subscriptions each user still has.
+     */
+    async findStale(since: Date): Promise<StaleSubscriptionReport[]> {
+        const res = await this.pool.query(
+            `SELECT user_id, deactivation_reason,
+              COUNT(*) FILTER (WHERE is_active = 1) as active_count,
+              COUNT(*) FILTER (WHERE is_active = 0 AND deactivated_at >= $1) as deactivated_count,
+              MAX(deactivated_at) as last_deactivated_at
+       FROM notification_records
+       WHERE user_id IN (
+         SELECT user_id FROM notification_records
+         WHERE is_active = 0 AND deactivated_at >= $1
+       )
+       GROUP BY user_id, deactivation_reason`,
+            [since],
+        );
+
+        const reports = new Map<string, StaleSubscriptionReport>();
+        for (const row of res.rows) {
+            const report: StaleSubscriptionReport = reports.get(
+                row.user_id,
+            ) ?? {
+                userId: row.user_id,
+                activeCount: 0,
+                deactivatedCount: 0,
+                reasons: {},
+                lastDeactivatedAt: null,
+            };
+            const deactivatedCount = Number(row.deactivated_count);
+            report.activeCount += Number(row.active_count);
+            report.deactivatedCount += deactivatedCount;
+            if (row.deactivation_reason && deactivatedCount) {
+                report.reasons[row.deactivation_reason] = deactivatedCount;
+            }
+            if (
+                row.last_deactivated_at &&
+                (!report.lastDeactivatedAt ||
+                    new Date(row.last_deactivated_at) >
+                        report.lastDeactivatedAt)
+            ) {
+                report.lastDeactivatedAt = new Date(row.last_deactivated_at);
+            }
+            reports.set(row.user_id, report);
+        }
+        return Array.from(reports.values());
+    }
+}
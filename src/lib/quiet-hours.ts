@@ -0,0 +1,136 @@
+import { TZDate } from '@date-fns/tz';
+import { Recipient } from './notification-content';
+import { kindsWithUrgency } from './notification-kinds';
+import { NotificationKind } from './notification-types';
+import { UserNotificationSettings } from './user-settings';
+
+// A daily window in the user's local time, in minutes after midnight. The
+// window may wrap past midnight; equal start and end means no quiet hours.
+export interface QuietHours {
+    startMinute: number;
+    endMinute: number;
+}
+
+// Kinds that can't wait until morning. Deadline reminders are held at the
+// task level instead, and only reach the service in quiet hours when the
+// deadline comes before they end.
+export const QUIET_HOURS_EXEMPT_KINDS: NotificationKind[] =
+    kindsWithUrgency('urgent');
+
+/**
+ * Parse a time of day such as '22:00' or '07:30:00' (as Postgres returns a
+ * TIME column) into minutes after midnight.
+ */
+export function parseTimeOfDay(value: string): number {
+    const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(value.trim());
+    const hours = Number(match?.[1]);
+    const minutes = Number(match?.[2]);
+    if (!match || hours > 23 || minutes > 59) {
+        throw new Error(`Invalid time of day: ${value}`);
+    }
+    return hours * 60 + minutes;
+}
+
+/**
+ * The institution's quiet hours, used for users who haven't set their own.
+ * Configured with QUIET_HOURS_START and QUIET_HOURS_END, 22:00 to 07:00 by
+ * default.
+ */
+export function institutionQuietHours(): QuietHours {
+    return {
+        startMinute: parseTimeOfDay(process.env.QUIET_HOURS_START || '22:00'),
+        endMinute: parseTimeOfDay(process.env.QUIET_HOURS_END || '07:00'),
+    };
+}
+
+function localMinute(date: Date, timeZone: string): number {
+    const local = new TZDate(date, timeZone);
+    return local.getHours() * 60 + local.getMinutes();
+}
+
+export function isQuietTime(
+    date: Date,
+    timeZone: string,
+    quietHours: QuietHours,
+): boolean {
+    const { startMinute, endMinute } = quietHours;
+    const minute = localMinute(date, timeZone);
+    if (startMinute === endMinute) return false;
+    return startMinute < endMinute
+        ? minute >= startMinute && minute < endMinute
+        : minute >= startMinute || minute < endMinute;
+}
+
+/**
+ * The next end of quiet hours after `date`, in the given timezone.
+ */
+export function quietHoursEnd(
+    date: Date,
+    timeZone: string,
+    quietHours: QuietHours,
+): Date {
+    const local = new TZDate(date, timeZone);
+    const end = new TZDate(
+        local.getFullYear(),
+        local.getMonth(),
+        local.getDate(),
+        Math.floor(quietHours.endMinute / 60),
+        quietHours.endMinute % 60,
+        0,
+        timeZone,
+    );
+    if (end.getTime() <= local.getTime()) end.setDate(end.getDate() + 1);
+    return new Date(end.getTime());
+}
+
+export interface DeferredRecipients {
+    sendAt: Date;
+    userIds: string[];
+}
+
+/**
+ * Split recipients into those to notify now and those in their local quiet
+ * hours, grouped by when their quiet hours end. Recipients whose quiet hours
+ * end after `notAfter` (e.g. the deadline being reminded about) are notified
+ * now anyway.
+ */
+export function holdForQuietHours<T extends Recipient>(
+    recipients: T[],
+    settings: Map<string, UserNotificationSettings>,
+    now: Date,
+    notAfter: Date,
+): { sendNow: T[]; deferred: DeferredRecipients[] } {
+    const sendNow: T[] = [];
+    const deferred = new Map<number, string[]>();
+
+    for (const recipient of recipients) {
+        const userSettings = settings.get(recipient.id);
+        if (
+            !userSettings ||
+            !isQuietTime(now, userSettings.timeZone, userSettings.quietHours)
+        ) {
+            sendNow.push(recipient);
+            continue;
+        }
+        const sendAt = quietHoursEnd(
+            now,
+            userSettings.timeZone,
+            userSettings.quietHours,
+        );
+        if (sendAt.getTime() >= notAfter.getTime()) {
+            sendNow.push(recipient);
+            continue;
+        }
+        const userIds = deferred.get(sendAt.getTime()) ?? [];
+        userIds.push(recipient.id);
+        deferred.set(sendAt.getTime(), userIds);
+    }
+
+    return {
+        sendNow,
+        deferred: Array.from(deferred, ([sendAt, userIds]) => ({
+            sendAt: new Date(sendAt),
+            userIds,
+        })),
+    };
+}
@@ -0,0 +1,99 @@
+import { Pool } from 'pg';
+import { Recipient } from './notification-content';
+
+// Who a notification kind goes to. The sending task supplies the ids the
+// audience is scoped by.
+export type Audience =
+    | 'user'
+    | 'group_students'
+    | 'course_managers'
+    | 'group_students_and_course_managers';
+
+export interface AudienceScope {
+    userId?: string;
+    groupId?: number;
+    courseId?: number;
+}
+
+async function user(pool: Pool, userId: string): Promise<Recipient[]> {
+    const res = await pool.query(`SELECT id, name FROM users WHERE id = $1`, [
+        userId,
+    ]);
+    if (!res.rows.length) {
+        throw new Error(`User not found for userId: ${userId}`);
+    }
+    return res.rows;
+}
+
+async function groupStudents(
+    pool: Pool,
+    groupId: number,
+): Promise<Recipient[]> {
+    const res = await pool.query(
+        `SELECT u.id, u.name FROM "group-members" gm
+     JOIN users u ON gm.user_id = u.id
+     WHERE gm.group_id = $1 AND gm.role = 'student'`,
+        [groupId],
+    );
+    return res.rows.map((row) => ({ ...row, role: 'student' as const }));
+}
+
+async function courseManagers(
+    pool: Pool,
+    courseId: number,
+): Promise<Recipient[]> {
+    const res = await pool.query(
+        `SELECT u.id, u.name FROM course_managers cm
+     JOIN users u ON cm.user_id = u.id
+     WHERE cm.course_id = $1`,
+        [courseId],
+    );
+    return res.rows.map((row) => ({ ...row, role: 'manager' as const }));
+}
+
+function requireScope<K extends keyof AudienceScope>(
+    audience: Audience,
+    scope: AudienceScope,
+    key: K,
+): NonNullable<AudienceScope[K]> {
+    const value = scope[key];
+    if (value === undefined || value === null) {
+        throw new Error(`${key} is required to resolve ${audience} recipients`);
+    }
+    return value as NonNullable<AudienceScope[K]>;
+}
+
+/**
+ * Look up the users in a notification kind's audience.
+ */
+export async function resolveRecipients(
+    pool: Pool,
+    audience: Audience,
+    scope: AudienceScope,
+): Promise<Recipient[]> {
+    switch (audience) {
+        case 'user':
+            return user(pool, requireScope(audience, scope, 'userId'));
+        case 'group_students':
+            return groupStudents(
+                pool,
+                requireScope(audience, scope, 'groupId'),
+            );
+        case 'course_managers':
+            return courseManagers(
+                pool,
+                requireScope(audience, scope, 'courseId'),
+            );
+        case 'group_students_and_course_managers':
+            return [
+                ...(await groupStudents(
+                    pool,
+                    requireScope(audience, scope, 'groupId'),
+                )),
+                ...(await courseManagers(
+                    pool,
+                    requireScope(audience, scope, 'courseId'),
+                )),
+            ];
+    }
+}
@@ -0,0 +1,53 @@
+import { Pool } from 'pg';
+
+const HOUR_IN_MINUTES = 60;
+
+// How long before a deadline each student reminder goes out, in minutes.
+export const DEFAULT_REMINDER_OFFSETS_MINUTES = [
+    48 * HOUR_IN_MINUTES,
+    24 * HOUR_IN_MINUTES,
+    1 * HOUR_IN_MINUTES,
+];
+
+const ACTIVITY_TYPE_REMINDER_OFFSETS_MINUTES: Record<string, number[]> = {
+    assignment: DEFAULT_REMINDER_OFFSETS_MINUTES,
+    exam: DEFAULT_REMINDER_OFFSETS_MINUTES,
+    quiz: [24 * HOUR_IN_MINUTES, 1 * HOUR_IN_MINUTES],
+};
+
+/**
+ * Reminder offsets for an activity, most specific first: a course setting for
+ * the activity type, a course-wide setting, the activity type default, then
+ * the global default. Returned largest offset first.
+ */
+export async function resolveReminderLadder(
+    pool: Pool,
+    courseId: number,
+    activityType: string,
+): Promise<number[]> {
+    const res = await pool.query(
+        `SELECT offsets_minutes FROM reminder_settings
+     WHERE course_id = $1 AND (activity_type = $2 OR activity_type IS NULL)
+     ORDER BY activity_type NULLS LAST
+     LIMIT 1`,
+        [courseId, activityType],
+    );
+
+    const offsets: number[] =
+        res.rows[0]?.offsets_minutes ??
+        ACTIVITY_TYPE_REMINDER_OFFSETS_MINUTES[activityType] ??
+        DEFAULT_REMINDER_OFFSETS_MINUTES;
+
+    return Array.from(new Set(offsets.filter((offset) => offset > 0))).sort(
+        (a, b) => b - a,
+    );
+}
+
+/**
+ * Format a reminder offset for tags and logs, e.g. 1440 -> "24h".
+ */
+export function formatReminderOffset(offsetMinutes: number): string {
+    return offsetMinutes % HOUR_IN_MINUTES === 0
+        ? `${offsetMinutes / HOUR_IN_MINUTES}h`
+        : `${offsetMinutes}m`;
+}
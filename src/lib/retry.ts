@@ -0,0 +1,134 @@
+import { positiveIntFromEnv } from './throttle';
+
+/**
+ * A delivery failure with what the provider told us about it. `permanent`
+ * overrides the status-based classification in isPermanentError.
+ */
+export class DeliveryError extends Error {
+    readonly statusCode?: number;
+    readonly permanent?: boolean;
+
+    constructor(
+        message: string,
+        options: { statusCode?: number; permanent?: boolean } = {},
+    ) {
+        super(message);
+        this.name = 'DeliveryError';
+        this.statusCode = options.statusCode;
+        this.permanent = options.permanent;
+    }
+}
+
+// Network failures worth another try.
+const TRANSIENT_ERROR_CODES = [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ETIMEDOUT',
+    'ESOCKETTIMEDOUT',
+    'EAI_AGAIN',
+    'EPIPE',
+    'UND_ERR_CONNECT_TIMEOUT',
+];
+
+/**
+ * Whether retrying a failed delivery can't help, e.g. a rejected address or
+ * a malformed request. Timeouts, 408, 429 and 5xx responses, SMTP 4xx
+ * replies and anything unrecognised are treated as transient.
+ */
+export function isPermanentError(error: unknown): boolean {
+    if (typeof error !== 'object' || error === null) return false;
+    const details = error as {
+        permanent?: boolean;
+        statusCode?: number;
+        status?: number;
+        responseCode?: number;
+        code?: string;
+    };
+
+    if (typeof details.permanent === 'boolean') return details.permanent;
+    if (details.code && TRANSIENT_ERROR_CODES.includes(details.code)) {
+        return false;
+    }
+
+    // SMTP replies: 4xx is "try again later", 5xx is final.
+    if (typeof details.responseCode === 'number') {
+        return details.responseCode >= 500;
+    }
+
+    const status = details.statusCode ?? details.status;
+    if (typeof status === 'number') {
+        return (
+            status >= 400 &&
+            status < 500 &&
+            status !== 408 &&
+            status !== 425 &&
+            status !== 429
+        );
+    }
+    return false;
+}
+
+export interface RetryPolicy {
+    // Total tries, including the first.
+    attempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+/**
+ * Retry settings from NOTIFICATION_RETRY_ATTEMPTS (default 3),
+ * NOTIFICATION_RETRY_BASE_MS (default 1000) and NOTIFICATION_RETRY_MAX_MS
+ * (default 30000).
+ */
+export function retryPolicy(): RetryPolicy {
+    return {
+        attempts: positiveIntFromEnv('NOTIFICATION_RETRY_ATTEMPTS', 3),
+        baseDelayMs: positiveIntFromEnv('NOTIFICATION_RETRY_BASE_MS', 1000),
+        maxDelayMs: positiveIntFromEnv('NOTIFICATION_RETRY_MAX_MS', 30000),
+    };
+}
+
+/**
+ * Delay before retry number `retry` (1 for the first retry): exponential
+ * from the base delay, capped, with jitter so recipients that failed
+ * together don't retry together.
+ */
+export function backoffDelay(
+    retry: number,
+    policy: RetryPolicy,
+    random: () => number = Math.random,
+): number {
+    const exponential = Math.min(
+        policy.baseDelayMs * 2 ** (retry - 1),
+        policy.maxDelayMs,
+    );
+    return Math.round(exponential * (0.5 + random() / 2));
+}
+
+export type RetryResult<T> =
+    | { ok: true; value: T; attempts: number }
+    | { ok: false; error: unknown; attempts: number; permanent: boolean };
+
+/**
+ * Calls `send` until it succeeds, fails permanently or runs out of
+ * attempts.
+ */
+export async function withRetries<T>(
+    send: () => Promise<T>,
+    policy: RetryPolicy = retryPolicy(),
+    onRetry?: (error: unknown, retry: number, delayMs: number) => void,
+): Promise<RetryResult<T>> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return { ok: true, value: await send(), attempts: attempt };
+        } catch (error) {
+            const permanent = isPermanentError(error);
+            if (permanent || attempt >= policy.attempts) {
+                return { ok: false, error, attempts: attempt, permanent };
+            }
+            const delayMs = backoffDelay(attempt, policy);
+            onRetry?.(error, attempt, delayMs);
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { safeUrl } from './html';
+import {
+    NOTIFICATION_CHANNELS,
+    NOTIFICATION_KINDS,
+} from './notification-types';
+import { parseDeadline } from './utils';
+
+// Building blocks for task payload schemas. Tasks validate their payload with
+// these before touching the database, so a malformed trigger fails straight
+// away with the offending field named in the error.
+
+export const idSchema = z.number().int().positive();
+
+export const userIdSchema = z.string().trim().min(1);
+
+const accepts = (parse: (value: string) => unknown) => (value: string) => {
+    try {
+        parse(value);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// An ISO timestamp, or the IST-formatted string older queued runs carry.
+export const deadlineSchema = z.string().refine(accepts(parseDeadline), {
+    message: 'Expected an ISO timestamp',
+});
+
+export const timestampSchema = z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), {
+        message: 'Expected a date or ISO timestamp',
+    });
+
+// A link we are willing to put in an email.
+export const linkUrlSchema = z.string().refine(accepts(safeUrl), {
+    message: 'Expected an http(s) or mailto URL',
+});
+
+export const notificationKindSchema = z.enum(NOTIFICATION_KINDS);
+
+export const notificationChannelSchema = z.enum(NOTIFICATION_CHANNELS);
+
+// Narrows a deadline job to some students; see filterRecipients.
+export const recipientFilterSchema = z.object({
+    userIds: z.array(userIdSchema).optional(),
+    excludeUserIds: z.array(userIdSchema).optional(),
+});
+
+// Payload of the schedule* tasks the app triggers when an activity with a
+// deadline is published in a course run.
+export const activityDeadlineSchema = z.object({
+    courseActivityId: idSchema,
+    runId: idSchema,
+    deadline: deadlineSchema,
+});
+
+// Ids read from a LEFT JOIN may be null by the time a context is serialised.
+const contextIdSchema = idSchema
+    .nullish()
+    .transform((value) => value ?? undefined);
+
+export const notificationContextSchema = z.object({
+    kind: notificationKindSchema,
+    courseId: contextIdSchema,
+    courseActivityId: contextIdSchema,
+    runId: contextIdSchema,
+    groupId: contextIdSchema,
+    reference: z.string().optional(),
+    taskRunId: z.string().optional(),
+});
+
+export const pushContentSchema = z.object({
+    title: z.string().min(1),
+    body: z.string(),
+    data: z.record(z.unknown()).optional(),
+    icon: linkUrlSchema.optional(),
+});
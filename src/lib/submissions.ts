@@ -0,0 +1,38 @@
+import { Pool } from 'pg';
+
+/**
+ * Ids of users who have submitted the given activity in a course run. Only
+ * assignments, quizzes and exams have submissions; other types return [].
+ * A quiz counts once an attempt is completed: one still in progress is what
+ * the auto-submit task completes at the deadline.
+ */
+export async function getSubmittedUserIds(
+    pool: Pool,
+    activityType: string,
+    activityId: number,
+    runId: number,
+): Promise<string[]> {
+    let res;
+    if (activityType === 'assignment') {
+        res = await pool.query(
+            `SELECT DISTINCT user_id FROM assignment_submissions 
+         WHERE activity_id = $1 AND course_run_id = $2`,
+            [activityId, runId],
+        );
+    } else if (activityType === 'quiz') {
+        res = await pool.query(
+            `SELECT DISTINCT user_id FROM "quiz-attempts" 
+         WHERE activity_id = $1 AND course_run_id = $2 AND completed_at IS NOT NULL`,
+            [activityId, runId],
+        );
+    } else if (activityType === 'exam') {
+        res = await pool.query(
+            `SELECT DISTINCT user_id FROM exam_submissions 
+         WHERE activity_id = $1 AND course_run_id = $2 AND submitted_at IS NOT NULL`,
+            [activityId, runId],
+        );
+    } else {
+        return [];
+    }
+    return res.rows.map((r: { user_id: string }) => r.user_id);
+}
@@ -0,0 +1,64 @@
+import { Pool } from 'pg';
+import { Branding, defaultBranding, tenantBranding } from './branding';
+import { NotificationContext } from './notification-types';
+
+/**
+ * Resolves which tenant's branding a notification uses: the tenant of its
+ * course, else of its group, else of its course run's course. Notifications
+ * without any of these, like a password reset, use the tenant of the
+ * recipient's groups: a group's own tenant, else the tenant of a course run
+ * in one of their groups. Anything without a tenant gets the default
+ * branding.
+ */
+export class TenantBranding {
+    private pool: Pool;
+    private cache = new Map<string, Branding>();
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    async resolve(
+        context: Pick<NotificationContext, 'courseId' | 'groupId' | 'runId'>,
+        userId?: string,
+    ): Promise<Branding> {
+        const courseId = context.courseId ?? null;
+        const groupId = context.groupId ?? null;
+        const runId = context.runId ?? null;
+        const scoped = courseId !== null || groupId !== null || runId !== null;
+        const memberId = scoped ? null : (userId ?? null);
+        if (!scoped && memberId === null) {
+            return defaultBranding();
+        }
+
+        const key = [courseId, groupId, runId, memberId].join(':');
+        const cached = this.cache.get(key);
+        if (cached) return cached;
+
+        const res = await this.pool.query(
+            `SELECT t.* FROM tenants t
+       WHERE t.id = COALESCE(
+         (SELECT tenant_id FROM courses WHERE id = $1),
+         (SELECT tenant_id FROM groups WHERE id = $2),
+         (SELECT c.tenant_id FROM "course-runs" cr
+          JOIN courses c ON c.id = cr.course_id
+          WHERE cr.id = $3),
+         (SELECT g.tenant_id FROM "group-members" gm
+          JOIN groups g ON g.id = gm.group_id
+          WHERE gm.user_id = $4 AND g.tenant_id IS NOT NULL
+          ORDER BY gm.group_id LIMIT 1),
+         (SELECT c.tenant_id FROM "group-members" gm
+          JOIN "course-runs" cr ON cr.group_id = gm.group_id
+          JOIN courses c ON c.id = cr.course_id
+          WHERE gm.user_id = $4 AND c.tenant_id IS NOT NULL
+          ORDER BY cr.id LIMIT 1)
+       )`,
+            [courseId, groupId, runId, memberId],
+        );
+        const branding = res.rows[0]
+            ? tenantBranding(res.rows[0])
+            : defaultBranding();
+        this.cache.set(key, branding);
+        return branding;
+    }
+}
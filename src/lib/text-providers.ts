@@ -0,0 +1,185 @@
+import { Locale } from './i18n';
+import { DeliveryError } from './retry';
+
+export interface OutgoingSms {
+    // E.164 phone number, e.g. +919876543210.
+    to: string;
+    body: string;
+}
+
+// A pre-approved WhatsApp template message. Businesses can only start a
+// WhatsApp conversation with a template.
+export interface OutgoingWhatsApp {
+    to: string;
+    template: {
+        // The notification kind, e.g. student_deadline.
+        name: string;
+        language: Locale;
+        variables: string[];
+    };
+    // The filled-in text, for providers and logs that want it.
+    body: string;
+}
+
+export interface TextSendResult {
+    // Provider's id for the message, stored on the delivery log row.
+    messageId?: string;
+}
+
+export interface TextMessageProvider {
+    name: string;
+    sendSms(message: OutgoingSms): Promise<TextSendResult>;
+    sendWhatsApp(message: OutgoingWhatsApp): Promise<TextSendResult>;
+}
+
+export type TextMessageProviderName = 'twilio' | 'fake';
+
+/**
+ * Sends SMS and WhatsApp messages through the Twilio Messages API. WhatsApp
+ * templates are Twilio content templates, looked up in
+ * TWILIO_WHATSAPP_TEMPLATES by `<kind>:<language>`, then by `<kind>`.
+ */
+export class TwilioProvider implements TextMessageProvider {
+    name = 'twilio';
+    private accountSid: string;
+    private authToken: string;
+    private smsFrom?: string;
+    private whatsAppFrom?: string;
+    private whatsAppTemplates: Record<string, string>;
+
+    constructor() {
+        const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID;
+        const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN;
+
+        if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN) {
+            throw new DeliveryError(
+                'TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN are required for SMS and WhatsApp notifications',
+                { permanent: true },
+            );
+        }
+
+        this.accountSid = TWILIO_ACCOUNT_SID;
+        this.authToken = TWILIO_AUTH_TOKEN;
+        this.smsFrom = process.env.TWILIO_SMS_FROM;
+        this.whatsAppFrom = process.env.TWILIO_WHATSAPP_FROM;
+        this.whatsAppTemplates = JSON.parse(
+            process.env.TWILIO_WHATSAPP_TEMPLATES || '{}',
+        );
+    }
+
+    async sendSms(message: OutgoingSms): Promise<TextSendResult> {
+        if (!this.smsFrom) {
+            throw new DeliveryError('TWILIO_SMS_FROM is required for SMS', {
+                permanent: true,
+            });
+        }
+        return this.send({
+            From: this.smsFrom,
+            To: message.to,
+            Body: message.body,
+        });
+    }
+
+    async sendWhatsApp(message: OutgoingWhatsApp): Promise<TextSendResult> {
+        if (!this.whatsAppFrom) {
+            throw new DeliveryError(
+                'TWILIO_WHATSAPP_FROM is required for WhatsApp',
+                { permanent: true },
+            );
+        }
+        const { name, language, variables } = message.template;
+        const contentSid =
+            this.whatsAppTemplates[`${name}:${language}`] ??
+            this.whatsAppTemplates[name];
+        if (!contentSid) {
+            throw new DeliveryError(
+                `No WhatsApp template configured for ${name} (${language})`,
+                { permanent: true },
+            );
+        }
+        return this.send({
+            From: `whatsapp:${this.whatsAppFrom}`,
+            To: `whatsapp:${message.to}`,
+            ContentSid: contentSid,
+            ContentVariables: JSON.stringify(
+                Object.fromEntries(
+                    variables.map((value, index) => [String(index + 1), value]),
+                ),
+            ),
+        });
+    }
+
+    private async send(
+        params: Record<string, string>,
+    ): Promise<TextSendResult> {
+        const response = await fetch(
+            `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+            {
+                method: 'POST',
+                headers: {
+                    Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                },
+                body: new URLSearchParams(params).toString(),
+            },
+        );
+        const result: any = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new DeliveryError(
+                `Twilio error ${response.status}: ${result.message ?? response.statusText}`,
+                { statusCode: response.status },
+            );
+        }
+        return { messageId: result.sid };
+    }
+}
+
+/**
+ * Keeps messages in memory instead of sending them, for tests and local
+ * development.
+ */
+export class FakeTextProvider implements TextMessageProvider {
+    name = 'fake';
+    sms: OutgoingSms[] = [];
+    whatsApp: OutgoingWhatsApp[] = [];
+
+    async sendSms(message: OutgoingSms): Promise<TextSendResult> {
+        this.sms.push(message);
+        console.log(`Fake SMS to ${message.to}: ${message.body}`);
+        return { messageId: `fake-sms-${this.sms.length}` };
+    }
+
+    async sendWhatsApp(message: OutgoingWhatsApp): Promise<TextSendResult> {
+        this.whatsApp.push(message);
+        console.log(`Fake WhatsApp to ${message.to}: ${message.body}`);
+        return { messageId: `fake-whatsapp-${this.whatsApp.length}` };
+    }
+}
+
+let provider: TextMessageProvider | null = null;
+
+/**
+ * The provider picked by TEXT_MESSAGE_PROVIDER (twilio or fake). Defaults to
+ * twilio. Missing or unknown provider configuration fails permanently, so
+ * sends aren't retried until it is fixed.
+ */
+export function getTextMessageProvider(): TextMessageProvider {
+    if (!provider) {
+        const name = (process.env.TEXT_MESSAGE_PROVIDER ||
+            'twilio') as TextMessageProviderName;
+        switch (name) {
+            case 'twilio':
+                provider = new TwilioProvider();
+                break;
+            case 'fake':
+                provider = new FakeTextProvider();
+                break;
+            default:
+                throw new DeliveryError(
+                    `Unknown TEXT_MESSAGE_PROVIDER: ${name}. Expected twilio or fake`,
+                    { permanent: true },
+                );
+        }
+    }
+    return provider;
+}
@@ -0,0 +1,141 @@
+import { DigestSection } from './digest';
+import { Locale } from './i18n';
+
+// A short message for SMS and WhatsApp. `template` is the wording with
+// {{1}}, {{2}}... in place of the variables: it is registered as-is as the
+// body of the WhatsApp template, so both channels say the same thing.
+export interface ShortText {
+    language: Locale;
+    template: string;
+    variables: string[];
+}
+
+/**
+ * The template with its variables filled in, as sent by SMS.
+ */
+export function fillTemplate({ template, variables }: ShortText): string {
+    return template.replace(
+        /\{\{(\d+)\}\}/g,
+        (placeholder, index) => variables[Number(index) - 1] ?? placeholder,
+    );
+}
+
+const english = (template: string, ...variables: (string | number)[]) => ({
+    language: 'en' as const,
+    template,
+    variables: variables.map(String),
+});
+
+// Short text counterparts of emailTemplates, with the same keys. The link to
+// the page (see ./deep-links) is sent after the text.
+export const textTemplates = {
+    activityPosted: (activityName: string, runName: string): ShortText =>
+        english(
+            'LearnX: New activity "{{1}}" has been added to {{2}}.',
+            activityName,
+            runName,
+        ),
+
+    addedToGroup: (groupName: string): ShortText =>
+        english('LearnX: You have been added to the group {{1}}.', groupName),
+
+    deadlineSoon: (
+        activityName: string,
+        runName: string,
+        deadline: string,
+    ): ShortText =>
+        english(
+            'LearnX: Your activity "{{1}}" for {{2}} is due on {{3}}. Please submit before the deadline.',
+            activityName,
+            runName,
+            deadline,
+        ),
+
+    newDocument: (documentName: string, courseName: string): ShortText =>
+        english(
+            'LearnX: New document "{{1}}" has been added to {{2}}.',
+            documentName,
+            courseName,
+        ),
+
+    adminDeadline: (
+        activityName: string,
+        runName: string,
+        deadline: string,
+    ): ShortText =>
+        english(
+            'LearnX: "{{1}}" in {{2}} is due in 30 minutes (at {{3}}).',
+            activityName,
+            runName,
+            deadline,
+        ),
+
+    redoEnabled: (
+        activityName: string,
+        deadline: string,
+        courseInfo: string,
+    ): ShortText =>
+        english(
+            'LearnX: Redo is enabled for "{{1}}" in {{2}}. New deadline: {{3}}.',
+            activityName,
+            courseInfo,
+            deadline,
+        ),
+
+    scorePublished: (activityName: string, runName: string): ShortText =>
+        english(
+            'LearnX: Your score for "{{1}}" in {{2}} has been published.',
+            activityName,
+            runName,
+        ),
+
+    missedDeadline: (activityName: string, runName: string): ShortText =>
+        english(
+            'LearnX: You missed the deadline for "{{1}}" in {{2}}. Please contact your instructor.',
+            activityName,
+            runName,
+        ),
+
+    facilitatorSummary: (
+        activityName: string,
+        runName: string,
+        submitted: number,
+        notSubmitted: number,
+    ): ShortText =>
+        english(
+            'LearnX: The deadline for "{{1}}" in {{2}} has passed. Submitted: {{3}}, not submitted: {{4}}.',
+            activityName,
+            runName,
+            submitted,
+            notSubmitted,
+        ),
+
+    courseRunFinalize: (
+        courseName: string,
+        runName: string,
+        endDate: string,
+    ): ShortText =>
+        english(
+            'LearnX: {{1}} for {{2}} ends on {{3}}. Please finish grading before then.',
+            runName,
+            courseName,
+            endDate,
+        ),
+
+    // The reset link itself is sent after the text.
+    passwordResetEmail: (expiresInMinutes: number): ShortText =>
+        english(
+            'LearnX: Use this link to reset your password. It is valid for {{1}} minutes.',
+            expiresInMinutes,
+        ),
+
+    dailyDigest: (date: string, sections: DigestSection[]): ShortText =>
+        english(
+            'LearnX: You have {{1}} new update(s) for {{2}}.',
+            sections.reduce(
+                (count, section) => count + section.items.length,
+                0,
+            ),
+            date,
+        ),
+};
@@ -0,0 +1,96 @@
+export interface ThrottleOptions {
+    // Calls in flight at once.
+    concurrency: number;
+    // Calls started per rolling second; unlimited when unset.
+    perSecond?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs async calls with at most `concurrency` in flight and, when
+ * `perSecond` is set, at most that many started in any one second. Calls
+ * start in the order they were queued.
+ */
+export class Throttle {
+    private options: ThrottleOptions;
+    private active = 0;
+    private waiting: (() => void)[] = [];
+    private started: number[] = [];
+    // Callers pass the rate limit one at a time, so calls start in order.
+    private rateGate: Promise<void> = Promise.resolve();
+
+    constructor(options: ThrottleOptions) {
+        this.options = {
+            ...options,
+            concurrency: Math.max(1, options.concurrency),
+        };
+    }
+
+    async run<T>(call: () => Promise<T>): Promise<T> {
+        await this.acquireSlot();
+        try {
+            await this.waitForRate();
+            return await call();
+        } finally {
+            this.releaseSlot();
+        }
+    }
+
+    private async acquireSlot(): Promise<void> {
+        if (this.active < this.options.concurrency) {
+            this.active++;
+            return;
+        }
+        // The releasing call hands its slot straight to us.
+        await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    private releaseSlot() {
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+
+    private waitForRate(): Promise<void> {
+        const { perSecond } = this.options;
+        if (!perSecond) return Promise.resolve();
+
+        const turn = this.rateGate.then(async () => {
+            for (;;) {
+                const now = Date.now();
+                this.started = this.started.filter((time) => time > now - 1000);
+                if (this.started.length < perSecond) {
+                    this.started.push(now);
+                    return;
+                }
+                await sleep(this.started[0] + 1000 - now);
+            }
+        });
+        this.rateGate = turn;
+        return turn;
+    }
+}
+
+/**
+ * Splits `items` into consecutive chunks of at most `size`.
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let start = 0; start < items.length; start += size) {
+        chunks.push(items.slice(start, start + size));
+    }
+    return chunks;
+}
+
+/**
+ * A positive integer from the environment, or `fallback` when unset or
+ * invalid.
+ */
+export function positiveIntFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,98 @@
+import { Pool } from 'pg';
+import { DEFAULT_LOCALE, Locale, resolveLocale } from './i18n';
+import {
+    institutionQuietHours,
+    parseTimeOfDay,
+    QuietHours,
+} from './quiet-hours';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from './utils';
+
+export interface UserNotificationSettings {
+    emailDigest: boolean;
+    locale: Locale;
+    // IANA timezone name, e.g. 'Europe/Berlin'.
+    timeZone: string;
+    quietHours: QuietHours;
+    // E.164 number for SMS and WhatsApp, or null when unknown or invalid.
+    phoneNumber: string | null;
+    whatsAppOptIn: boolean;
+}
+
+const E164_PHONE_NUMBER = /^\+[1-9]\d{7,14}$/;
+
+function defaultSettings(): UserNotificationSettings {
+    return {
+        emailDigest: false,
+        locale: DEFAULT_LOCALE,
+        timeZone: DEFAULT_TIMEZONE,
+        quietHours: institutionQuietHours(),
+        phoneNumber: null,
+        whatsAppOptIn: false,
+    };
+}
+
+/**
+ * Reads per-user settings from user_notification_settings. Users without a
+ * row get the defaults, unknown timezones fall back to IST, users without
+ * their own quiet hours get the institution's and phone numbers not in E.164
+ * format are ignored.
+ */
+export class UserSettings {
+    private pool: Pool;
+    private cache = new Map<string, UserNotificationSettings>();
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    async get(userId: string): Promise<UserNotificationSettings> {
+        return (await this.getMany([userId])).get(userId)!;
+    }
+
+    async getMany(
+        userIds: string[],
+    ): Promise<Map<string, UserNotificationSettings>> {
+        const missing = userIds.filter((userId) => !this.cache.has(userId));
+        if (missing.length) {
+            const res = await this.pool.query(
+                `SELECT user_id, email_digest, locale, timezone,
+              quiet_hours_start, quiet_hours_end, phone_number,
+              whatsapp_opt_in
+         FROM user_notification_settings WHERE user_id = ANY($1)`,
+                [missing],
+            );
+            const defaults = defaultSettings();
+            for (const userId of missing) {
+                this.cache.set(userId, defaults);
+            }
+            for (const row of res.rows) {
+                this.cache.set(row.user_id, {
+                    emailDigest: Boolean(row.email_digest),
+                    locale: resolveLocale(row.locale),
+                    timeZone:
+                        row.timezone && isValidTimeZone(row.timezone)
+                            ? row.timezone
+                            : DEFAULT_TIMEZONE,
+                    quietHours:
+                        row.quiet_hours_start && row.quiet_hours_end
+                            ? {
+                                  startMinute: parseTimeOfDay(
+                                      row.quiet_hours_start,
+                                  ),
+                                  endMinute: parseTimeOfDay(
+                                      row.quiet_hours_end,
+                                  ),
+                              }
+                            : defaults.quietHours,
+                    phoneNumber: E164_PHONE_NUMBER.test(row.phone_number ?? '')
+                        ? row.phone_number
+                        : null,
+                    whatsAppOptIn: Boolean(row.whatsapp_opt_in),
+                });
+            }
+        }
+        return new Map(
+            userIds.map((userId) => [userId, this.cache.get(userId)!]),
+        );
+    }
+}
@@ -1,9 +1,90 @@
 import { TZDate } from '@date-fns/tz';
-import { format } from 'date-fns';
+import { format, Locale as DateFnsLocale, parse } from 'date-fns';
+import { enUS, hi, kn } from 'date-fns/locale';
+import { DEFAULT_LOCALE, Locale } from './i18n';
 
 export const IST_TIMEZONE = 'Asia/Kolkata';
 
-export const convertUTCToISTString = (date: Date): string => {
-    const istDate = new TZDate(date, IST_TIMEZONE);
-    return format(istDate, 'yyyy-MM-dd hh:mm:ss a');
+// Used for users who haven't stored a timezone.
+export const DEFAULT_TIMEZONE = IST_TIMEZONE;
+
+const DATE_LOCALES: Record<Locale, DateFnsLocale> = { en: enUS, hi, kn };
+
+/**
+ * Whether the runtime knows an IANA timezone name such as 'Europe/Berlin'.
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const ABBREVIATION_LOCALES = ['en-US', 'en-IN', 'en-GB'];
+
+/**
+ * Short name for a timezone at a given moment, e.g. IST, EST or CET. Zones
+ * without a well-known abbreviation get their offset, e.g. GMT+8.
+ */
+export const timeZoneAbbreviation = (date: Date, timeZone: string): string => {
+    let offsetName = '';
+    for (const intlLocale of ABBREVIATION_LOCALES) {
+        const name = new Intl.DateTimeFormat(intlLocale, {
+            timeZone,
+            timeZoneName: 'short',
+        })
+            .formatToParts(date)
+            .find((part) => part.type === 'timeZoneName')?.value;
+        if (!name) continue;
+        if (name === 'GMT' || !name.startsWith('GMT')) return name;
+        offsetName ||= name;
+    }
+    return offsetName;
+};
+
+export const formatDateTime = (
+    date: Date,
+    timeZone: string = DEFAULT_TIMEZONE,
+    locale: Locale = DEFAULT_LOCALE,
+): string => {
+    const zonedDate = new TZDate(date, timeZone);
+    const formatted = format(zonedDate, 'yyyy-MM-dd hh:mm:ss a', {
+        locale: DATE_LOCALES[locale],
+    });
+    return `${formatted} ${timeZoneAbbreviation(date, timeZone)}`;
+};
+
+export const formatDate = (
+    date: Date,
+    timeZone: string = DEFAULT_TIMEZONE,
+    locale: Locale = DEFAULT_LOCALE,
+): string => {
+    const zonedDate = new TZDate(date, timeZone);
+    return format(zonedDate, 'd MMMM yyyy', { locale: DATE_LOCALES[locale] });
+};
+
+const LEGACY_IST_DEADLINE = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2} [AP]M$/;
+
+/**
+ * Parse a deadline from a task payload. Deadlines are ISO timestamps, but
+ * runs queued before per-user timezones carry a preformatted IST string
+ * such as '2024-12-15 11:59:59 PM'.
+ */
+export const parseDeadline = (value: string): Date => {
+    if (LEGACY_IST_DEADLINE.test(value)) {
+        return new Date(
+            parse(
+                value,
+                'yyyy-MM-dd hh:mm:ss a',
+                new TZDate(0, IST_TIMEZONE),
+            ).getTime(),
+        );
+    }
+    const deadline = new Date(value);
+    if (isNaN(deadline.getTime())) {
+        throw new Error(`Invalid deadline: ${value}`);
+    }
+    return deadline;
 };
@@ -0,0 +1,32 @@
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+function tokensMatch(given: string, expected: string): boolean {
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Only lets through requests carrying `Authorization: Bearer <token>` with
+ * the INBOX_API_TOKEN shared with the LearnX web app's backend, which
+ * decides which user a request is for.
+ */
+export function requireApiToken(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+): void {
+    const expected = process.env.INBOX_API_TOKEN;
+    if (!expected) {
+        res.status(503).json({ error: 'INBOX_API_TOKEN is not configured' });
+        return;
+    }
+
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    if (scheme !== 'Bearer' || !token || !tokensMatch(token, expected)) {
+        res.status(401).json({ error: 'Invalid or missing API token' });
+        return;
+    }
+    next();
+}
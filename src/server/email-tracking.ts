@@ -0,0 +1,86 @@
+import { Request, Response, Router } from 'express';
+import { Pool } from 'pg';
+import { z } from 'zod';
+import { EmailEngagement } from '../lib/email-engagement';
+import { readTrackingToken, trackingSettings } from '../lib/email-tracking';
+import { notificationKindSchema, timestampSchema } from '../lib/schemas';
+import { parse } from './parse';
+
+// A transparent 1x1 GIF.
+const PIXEL = Buffer.from(
+    'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+    'base64',
+);
+
+const engagementQuerySchema = z.object({
+    by: z.enum(['kind', 'run']).default('kind'),
+    kind: notificationKindSchema.optional(),
+    runId: z.coerce.number().int().positive().optional(),
+    from: timestampSchema.optional(),
+    to: timestampSchema.optional(),
+});
+
+/**
+ * The open pixel and CTA redirect linked from tracked emails, mounted at
+ * /email. Public: mail clients load them without credentials, and each
+ * token is signed (see ../lib/email-tracking).
+ */
+export function emailTrackingRouter(pool: Pool): Router {
+    const engagement = new EmailEngagement(pool);
+    const router = Router();
+
+    router.get('/open/:token', async (req: Request, res: Response) => {
+        const settings = trackingSettings();
+        const token =
+            settings &&
+            readTrackingToken(String(req.params.token), settings.secret);
+        if (token) await engagement.record('open', token);
+
+        // Always answer with the pixel so a bad token doesn't show a broken
+        // image.
+        res.set({
+            'Content-Type': 'image/gif',
+            'Cache-Control': 'no-store, max-age=0',
+        });
+        res.send(PIXEL);
+    });
+
+    router.get('/click/:token', async (req: Request, res: Response) => {
+        const settings = trackingSettings();
+        const token =
+            settings &&
+            readTrackingToken(String(req.params.token), settings.secret);
+        if (!token?.url) {
+            res.status(404).json({ error: 'Invalid or expired link' });
+            return;
+        }
+
+        await engagement.record('click', token);
+        res.redirect(302, token.url);
+    });
+
+    return router;
+}
+
+/**
+ * Open and click rates for the LearnX web app's reports, mounted at
+ * /reports/email-engagement behind the API token.
+ */
+export function engagementRouter(pool: Pool): Router {
+    const engagement = new EmailEngagement(pool);
+    const router = Router();
+
+    router.get('/', async (req: Request, res: Response) => {
+        const query = parse(engagementQuerySchema, req.query, res);
+        if (!query) return;
+
+        const rates = await engagement.rates({
+            ...query,
+            from: query.from ? new Date(query.from) : undefined,
+            to: query.to ? new Date(query.to) : undefined,
+        });
+        res.json({ by: query.by, rates });
+    });
+
+    return router;
+}
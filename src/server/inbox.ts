@@ -0,0 +1,69 @@
+import { Request, Response, Router } from 'express';
+import { Pool } from 'pg';
+import { z } from 'zod';
+import { Inbox } from '../lib/inbox';
+import { userIdSchema } from '../lib/schemas';
+import { parse } from './parse';
+
+const userParamsSchema = z.object({ userId: userIdSchema });
+
+const notificationParamsSchema = userParamsSchema.extend({
+    id: z.coerce.number().int().positive(),
+});
+
+const listQuerySchema = z.object({
+    unread: z.enum(['true', 'false']).optional(),
+    before: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+/**
+ * Routes behind the bell inbox in the LearnX web app, mounted at
+ * /users/:userId/notifications.
+ */
+export function inboxRouter(pool: Pool): Router {
+    const inbox = new Inbox(pool);
+    const router = Router({ mergeParams: true });
+
+    router.get('/', async (req: Request, res: Response) => {
+        const params = parse(userParamsSchema, req.params, res);
+        const query = params && parse(listQuerySchema, req.query, res);
+        if (!params || !query) return;
+
+        const notifications = await inbox.list(params.userId, {
+            unreadOnly: query.unread === 'true',
+            before: query.before,
+            limit: query.limit,
+        });
+        res.json({ notifications });
+    });
+
+    router.get('/unread-count', async (req: Request, res: Response) => {
+        const params = parse(userParamsSchema, req.params, res);
+        if (!params) return;
+
+        res.json({ count: await inbox.unreadCount(params.userId) });
+    });
+
+    router.post('/read-all', async (req: Request, res: Response) => {
+        const params = parse(userParamsSchema, req.params, res);
+        if (!params) return;
+
+        res.json({ updated: await inbox.markAllRead(params.userId) });
+    });
+
+    router.post('/:id/read', async (req: Request, res: Response) => {
+        const params = parse(notificationParamsSchema, req.params, res);
+        if (!params) return;
+
+        if (!(await inbox.markRead(params.userId, params.id))) {
+            res.status(404).json({
+                error: `Notification not found for id: ${params.id}`,
+            });
+            return;
+        }
+        res.json({ id: params.id, read: true });
+    });
+
+    return router;
+}
@@ -0,0 +1,53 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { Pool } from 'pg';
+import pool from '../lib/db';
+import { requireApiToken } from './auth';
+import { emailTrackingRouter, engagementRouter } from './email-tracking';
+import { inboxRouter } from './inbox';
+import { preferencesRouter } from './preferences';
+import { zeptoMailWebhookRouter } from './webhooks';
+
+/**
+ * HTTP API for the LearnX web app. Runs alongside the Trigger.dev tasks and
+ * shares their database.
+ */
+export function createServer(pool: Pool) {
+    const app = express();
+    // Before the JSON parser: webhooks verify a signature of the raw body.
+    app.use('/webhooks/zeptomail', zeptoMailWebhookRouter(pool));
+    app.use(express.json());
+
+    app.get('/health', (req: Request, res: Response) => {
+        res.json({ ok: true });
+    });
+
+    app.use('/users/:userId/notifications', requireApiToken, inboxRouter(pool));
+    app.use(
+        '/users/:userId/notification-preferences',
+        requireApiToken,
+        preferencesRouter(pool),
+    );
+    app.use(
+        '/reports/email-engagement',
+        requireApiToken,
+        engagementRouter(pool),
+    );
+    // Public: opened from emails, authenticated by their signed tokens.
+    app.use('/email', emailTrackingRouter(pool));
+
+    app.use(
+        (error: unknown, req: Request, res: Response, next: NextFunction) => {
+            console.error(`❌ ${req.method} ${req.path} failed:`, error);
+            res.status(500).json({ error: 'Internal server error' });
+        },
+    );
+
+    return app;
+}
+
+if (require.main === module) {
+    const port = Number(process.env.PORT) || 3000;
+    createServer(pool).listen(port, () => {
+        console.log(`LearnX notification API listening on port ${port}`);
+    });
+}
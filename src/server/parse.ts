@@ -0,0 +1,21 @@
+import { Response } from 'express';
+import { z } from 'zod';
+
+/**
+ * Parse part of a request, or answer 400 naming each invalid field and
+ * return null.
+ */
+export function parse<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    value: unknown,
+    res: Response,
+): T | null {
+    const result = schema.safeParse(value);
+    if (result.success) return result.data;
+    res.status(400).json({
+        error: result.error.issues
+            .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; '),
+    });
+    return null;
+}
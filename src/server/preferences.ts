@@ -0,0 +1,51 @@
+import { Request, Response, Router } from 'express';
+import { Pool } from 'pg';
+import { z } from 'zod';
+import { NotificationPreferences } from '../lib/preferences';
+import {
+    idSchema,
+    notificationChannelSchema,
+    notificationKindSchema,
+    userIdSchema,
+} from '../lib/schemas';
+import { parse } from './parse';
+
+const userParamsSchema = z.object({ userId: userIdSchema });
+
+// Omitted or null scope fields mean "any".
+const preferenceSchema = z.object({
+    kind: notificationKindSchema.nullish().transform((value) => value ?? null),
+    channel: notificationChannelSchema
+        .nullish()
+        .transform((value) => value ?? null),
+    courseId: idSchema.nullish().transform((value) => value ?? null),
+    enabled: z.boolean(),
+});
+
+/**
+ * Routes behind the notification settings page in the LearnX web app,
+ * mounted at /users/:userId/notification-preferences.
+ */
+export function preferencesRouter(pool: Pool): Router {
+    const preferences = new NotificationPreferences(pool);
+    const router = Router({ mergeParams: true });
+
+    router.get('/', async (req: Request, res: Response) => {
+        const params = parse(userParamsSchema, req.params, res);
+        if (!params) return;
+
+        res.json({ preferences: await preferences.list(params.userId) });
+    });
+
+    // Mute or re-enable one scope; setting the same scope again overwrites it.
+    router.put('/', async (req: Request, res: Response) => {
+        const params = parse(userParamsSchema, req.params, res);
+        const preference = params && parse(preferenceSchema, req.body, res);
+        if (!params || !preference) return;
+
+        await preferences.setPreference(params.userId, preference);
+        res.json(preference);
+    });
+
+    return router;
+}
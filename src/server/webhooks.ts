@@ -0,0 +1,64 @@
+import express, { Request, Response, Router } from 'express';
+import { Pool } from 'pg';
+import {
+    parseZeptoMailEvents,
+    verifyZeptoMailSignature,
+} from '../lib/email-events';
+import { EmailSuppressions } from '../lib/email-suppressions';
+
+/**
+ * Bounce and spam-complaint webhooks from ZeptoMail, mounted at
+ * /webhooks/zeptomail. Requests are authenticated by their signature
+ * rather than the API token, so the raw body is kept to verify it.
+ */
+export function zeptoMailWebhookRouter(pool: Pool): Router {
+    const suppressions = new EmailSuppressions(pool);
+    const router = Router();
+
+    router.post(
+        '/',
+        express.raw({ type: '*/*' }),
+        async (req: Request, res: Response) => {
+            const secret = process.env.ZEPTO_WEBHOOK_SECRET;
+            if (!secret) {
+                res.status(503).json({
+                    error: 'ZEPTO_WEBHOOK_SECRET is not configured',
+                });
+                return;
+            }
+
+            const rawBody: Buffer = Buffer.isBuffer(req.body)
+                ? req.body
+                : Buffer.alloc(0);
+            if (
+                !verifyZeptoMailSignature(
+                    rawBody,
+                    req.get('producer-signature'),
+                    secret,
+                )
+            ) {
+                res.status(401).json({ error: 'Invalid webhook signature' });
+                return;
+            }
+
+            let body: unknown;
+            try {
+                body = JSON.parse(rawBody.toString('utf8'));
+            } catch {
+                res.status(400).json({ error: 'Expected a JSON body' });
+                return;
+            }
+
+            const events = parseZeptoMailEvents(body);
+            for (const event of events) {
+                await suppressions.add(event);
+                console.log(
+                    `Suppressed ${event.address} after ${event.reason}: ${event.detail ?? 'no detail'}`,
+                );
+            }
+            res.json({ suppressed: events.length });
+        },
+    );
+
+    return router;
+}
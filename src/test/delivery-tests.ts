@@ -0,0 +1,699 @@
+import type { Pool } from 'pg';
+import { defaultBranding } from '../lib/branding';
+import { buildIdempotencyKey, DeliveryLog } from '../lib/delivery-log';
+import { generateEmailTemplate } from '../lib/email-template';
+import { getKindMessages } from '../lib/locales';
+import { renderNotificationContent } from '../lib/notification-content';
+import { RecipientResult, summarize } from '../lib/notification-dispatcher';
+import {
+    getKindDefinition,
+    kindsWithUrgency,
+    notificationKinds,
+} from '../lib/notification-kinds';
+import {
+    NOTIFICATION_KINDS,
+    NotificationChannel,
+    NotificationKind,
+} from '../lib/notification-types';
+import { NotificationPreferences } from '../lib/preferences';
+import {
+    isExpiredSubscription,
+    isGonePushError,
+} from '../lib/push-subscriptions';
+import {
+    backoffDelay,
+    DeliveryError,
+    isPermanentError,
+    withRetries,
+} from '../lib/retry';
+import {
+    FakeTextProvider,
+    getTextMessageProvider,
+} from '../lib/text-providers';
+import { TenantBranding } from '../lib/tenants';
+import { fillTemplate, textTemplates } from '../lib/text-template';
+import { expectText, TestReporter } from './test-utils';
+
+/**
+ * Delivery Test Suite
+ *
+ * Validates how notifications are delivered:
+ * 1. Task payloads are checked against the notification kind registry
+ * 2. SMS and WhatsApp text and providers
+ * 3. Transient failures are retried with backoff, permanent ones are not
+ * 4. Retried sends are recognised by their idempotency key
+ * 5. The most specific preference wins
+ * 6. Dispatch results are totalled per channel
+ * 7. Gone and expired push subscriptions are recognised
+ * 8. Notifications without a course, group or run use the recipient's tenant
+ *
+ * The database is replaced by in-memory fakes - NO DATABASE REQUIRED
+ */
+
+const testReporter = new TestReporter();
+
+/**
+ * Test: Payload Schemas
+ * Validates task payloads against the notification kind registry, naming the
+ * offending field when one is rejected
+ */
+function testPayloadSchemas() {
+    console.log('\n📝 Testing Payload Schemas...');
+    const testName = 'Payload Schemas';
+
+    testReporter.addResult(testName, 'Every Kind Registered', {
+        passed: NOTIFICATION_KINDS.every((kind) => notificationKinds[kind]),
+        message: 'Each notification kind has a registry entry',
+    });
+
+    const redo = notificationKinds.redo_enabled.payload;
+    const validRedo = {
+        userId: 'user-1',
+        courseActivityId: 42,
+        newDeadline: '2024-12-15T18:29:59.000Z',
+        runId: 7,
+    };
+    testReporter.addResult(testName, 'Valid Payload Accepted', {
+        passed: redo.safeParse(validRedo).success,
+        message: 'A well-formed redo payload parses',
+    });
+
+    const wrongType = redo.safeParse({ ...validRedo, courseActivityId: '42' });
+    testReporter.addResult(testName, 'Wrong Type Names Field', {
+        passed:
+            !wrongType.success &&
+            wrongType.error.issues[0].path.join('.') === 'courseActivityId',
+        message: 'A string id is rejected at courseActivityId',
+    });
+
+    const badDeadline = redo.safeParse({ ...validRedo, newDeadline: 'soon' });
+    testReporter.addResult(testName, 'Invalid Deadline Rejected', {
+        passed:
+            !badDeadline.success &&
+            badDeadline.error.issues[0].message === 'Expected an ISO timestamp',
+        message: 'newDeadline must be a timestamp',
+    });
+
+    const missing = notificationKinds.added_to_group.payload.safeParse({
+        userId: 'user-1',
+    });
+    testReporter.addResult(testName, 'Missing Field Rejected', {
+        passed:
+            !missing.success &&
+            missing.error.issues[0].path.join('.') === 'groupId',
+        message: 'groupId is required',
+    });
+
+    testReporter.addResult(testName, 'Legacy IST Deadline Accepted', {
+        passed: notificationKinds.student_deadline.payload.safeParse({
+            courseActivityId: 42,
+            runId: 7,
+            deadline: '2024-12-15 11:59:59 PM',
+            reminderOffsetMinutes: 60,
+            excludeUserIds: ['user-2'],
+        }).success,
+        message: 'Runs queued before ISO deadlines still validate',
+    });
+
+    testReporter.addResult(testName, 'Unsafe Reset URL Rejected', {
+        passed: !notificationKinds.password_reset.payload.safeParse({
+            userId: 'user-1',
+            resetUrl: 'javascript:alert(1)',
+            expiresInMinutes: 30,
+        }).success,
+        message: 'resetUrl must be an http(s) link',
+    });
+
+    testReporter.addResult(testName, 'Digest Takes Low Urgency Kinds', {
+        passed:
+            kindsWithUrgency('low').includes('score_published') &&
+            !kindsWithUrgency('low').includes('student_deadline'),
+        message: 'Only low-urgency kinds wait for the digest',
+    });
+}
+
+/**
+ * Test: Text Messages
+ * Validates the SMS text and WhatsApp template rendered for each kind
+ */
+async function testTextMessages() {
+    console.log('\n📝 Testing Text Messages...');
+    const testName = 'Text Messages';
+
+    testReporter.addResult(testName, 'Every Kind Has Short Text', {
+        passed: NOTIFICATION_KINDS.every(
+            (kind) => getKindMessages(kind, 'en').text !== undefined,
+        ),
+        message: 'Every kind can go out by SMS or WhatsApp',
+    });
+    testReporter.addResult(testName, 'Off By Default', {
+        passed: NOTIFICATION_KINDS.every(
+            (kind) =>
+                !getKindDefinition(kind).channels.some(
+                    (channel) => channel === 'sms' || channel === 'whatsapp',
+                ),
+        ),
+        message: 'No kind goes out by SMS or WhatsApp until enabled',
+    });
+
+    const twilioEnv = ['TEXT_MESSAGE_PROVIDER', 'TWILIO_ACCOUNT_SID'].map(
+        (name) => [name, process.env[name]] as const,
+    );
+    twilioEnv.forEach(([name]) => delete process.env[name]);
+    let configError: unknown;
+    try {
+        getTextMessageProvider();
+    } catch (error) {
+        configError = error;
+    }
+    twilioEnv.forEach(([name, value]) => {
+        if (value !== undefined) process.env[name] = value;
+    });
+    testReporter.addResult(testName, 'Missing Config Is Permanent', {
+        passed: configError !== undefined && isPermanentError(configError),
+        message: 'Sends without Twilio credentials are not retried',
+    });
+
+    const content = renderNotificationContent(
+        'student_deadline',
+        {
+            courseActivityId: 42,
+            runId: 7,
+            activityName: 'Quiz 1',
+            runName: 'Run A',
+            deadline: '2024-12-15T18:29:59.000Z',
+        },
+        { id: 'user-1', locale: 'hi' },
+    );
+    const url = 'https://learnx.atriauniversity.in/runs/7/activities/42';
+    expectText(
+        testReporter,
+        testName,
+        'SMS Body',
+        content.text?.body ?? '',
+        `LearnX: Your activity "Quiz 1" for Run A is due on 2024-12-15 11:59:59 PM IST. Please submit before the deadline. ${url}`,
+    );
+    testReporter.addResult(testName, 'WhatsApp Template', {
+        passed:
+            content.text?.template.name === 'student_deadline' &&
+            content.text?.template.language === 'en' &&
+            content.text?.template.variables.length === 4 &&
+            content.text?.template.variables[3] === url,
+        message:
+            'Untranslated text uses the English template with the link last',
+        details: content.text,
+    });
+
+    const redo = textTemplates.redoEnabled('Quiz 1', 'Dec 20', 'Run A');
+    testReporter.addResult(testName, 'Variables In Order', {
+        passed:
+            fillTemplate(redo) ===
+                'LearnX: Redo is enabled for "Quiz 1" in Run A. New deadline: Dec 20.' &&
+            redo.template.indexOf('{{2}}') < redo.template.indexOf('{{3}}'),
+        message: 'WhatsApp placeholders appear in numeric order',
+    });
+
+    const provider = new FakeTextProvider();
+    await provider.sendWhatsApp({
+        to: '+919876543210',
+        template: content.text!.template,
+        body: content.text!.body,
+    });
+    const sms = await provider.sendSms({
+        to: '+919876543210',
+        body: content.text!.body,
+    });
+    testReporter.addResult(testName, 'Fake Provider', {
+        passed:
+            provider.whatsApp.length === 1 &&
+            provider.sms[0]?.body === content.text?.body &&
+            sms.messageId === 'fake-sms-1',
+        message: 'The fake provider keeps what it was asked to send',
+    });
+}
+
+/**
+ * Test: Retries
+ * Validates which errors are permanent, the backoff between attempts and when
+ * withRetries gives up
+ */
+async function testRetries() {
+    console.log('\n📝 Testing Retries...');
+    const testName = 'Retries';
+
+    const cases: [string, unknown, boolean][] = [
+        ['HTTP 400', { statusCode: 400 }, true],
+        ['HTTP 410', { statusCode: 410 }, true],
+        ['HTTP 429', { statusCode: 429 }, false],
+        ['HTTP 503', { statusCode: 503 }, false],
+        ['SMTP 550', { responseCode: 550 }, true],
+        ['SMTP 421', { responseCode: 421 }, false],
+        ['Connection Reset', { code: 'ECONNRESET', statusCode: 400 }, false],
+        ['Explicit Flag', new DeliveryError('bad', { permanent: true }), true],
+        ['Unknown Error', new Error('boom'), false],
+    ];
+    for (const [scenario, error, expected] of cases) {
+        testReporter.addResult(testName, scenario, {
+            passed: isPermanentError(error) === expected,
+            message: expected ? 'Permanent' : 'Transient',
+        });
+    }
+
+    const policy = { attempts: 3, baseDelayMs: 1000, maxDelayMs: 3000 };
+    const delays = [1, 2, 3, 4].map((retry) =>
+        backoffDelay(retry, policy, () => 1),
+    );
+    testReporter.addResult(testName, 'Exponential Backoff', {
+        passed:
+            delays.join() === '1000,2000,3000,3000' &&
+            backoffDelay(1, policy, () => 0) === 500,
+        message: 'Delays double up to the cap, with up to half taken off',
+        details: delays,
+    });
+
+    const fastPolicy = { attempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+    let calls = 0;
+    const recovered = await withRetries(async () => {
+        calls++;
+        if (calls < 3) throw new DeliveryError('busy', { statusCode: 503 });
+        return 'sent';
+    }, fastPolicy);
+    testReporter.addResult(testName, 'Transient Error Retried', {
+        passed: recovered.ok && recovered.attempts === 3,
+        message: 'Succeeds on the third attempt',
+        details: recovered,
+    });
+
+    calls = 0;
+    const rejected = await withRetries(async () => {
+        calls++;
+        throw new DeliveryError('bad address', { statusCode: 422 });
+    }, fastPolicy);
+    testReporter.addResult(testName, 'Permanent Error Not Retried', {
+        passed: !rejected.ok && rejected.permanent && calls === 1,
+        message: 'Gives up after the first attempt',
+    });
+
+    calls = 0;
+    const exhausted = await withRetries(async () => {
+        calls++;
+        throw new Error('timeout');
+    }, fastPolicy);
+    testReporter.addResult(testName, 'Attempts Exhausted', {
+        passed: !exhausted.ok && !exhausted.permanent && calls === 3,
+        message: 'Stops after the configured number of attempts',
+    });
+}
+
+/**
+ * Test: Idempotency Keys
+ * Validates that a retried notification gets the same key, different
+ * notifications get different keys, and a channel that already succeeded is
+ * recognised as a duplicate
+ */
+async function testIdempotencyKeys() {
+    console.log('\n📝 Testing Idempotency Keys...');
+    const testName = 'Idempotency Keys';
+
+    expectText(
+        testReporter,
+        testName,
+        'Key Parts',
+        buildIdempotencyKey(
+            { kind: 'score_published', courseActivityId: 42, runId: 7 },
+            'user-1',
+        ),
+        'score_published:42:7:user-1',
+    );
+    testReporter.addResult(testName, 'Same Key On Retry', {
+        passed:
+            buildIdempotencyKey(
+                { kind: 'redo_enabled', runId: 7, taskRunId: 'run_a' },
+                'user-1',
+            ) ===
+            buildIdempotencyKey(
+                { kind: 'redo_enabled', runId: 7, taskRunId: 'run_b' },
+                'user-1',
+            ),
+        message: 'The task run that sent it is not part of the key',
+    });
+
+    const documentKey = (reference: string) =>
+        buildIdempotencyKey(
+            { kind: 'new_document', runId: 7, reference },
+            'user-1',
+        );
+    testReporter.addResult(testName, 'Documents With The Same Name', {
+        passed: documentKey('document_1') !== documentKey('document_2'),
+        message: 'Two documents named alike are two notifications',
+    });
+
+    // In-memory notification_deliveries, enough for record and hasSucceeded.
+    const rows: { channel: string; status: string; key: string }[] = [];
+    const pool = {
+        query: async (sql: string, params: any[]) => {
+            if (sql.includes('INSERT INTO notification_deliveries')) {
+                rows.push({
+                    channel: params[1],
+                    status: params[3],
+                    key: params[4],
+                });
+                return { rows: [] };
+            }
+            return {
+                rows: rows.filter(
+                    (row) =>
+                        row.key === params[0] &&
+                        row.channel === params[1] &&
+                        row.status === 'sent',
+                ),
+            };
+        },
+    } as unknown as Pool;
+    const log = new DeliveryLog(pool);
+    const context = { kind: 'new_document' as const, runId: 7 };
+    const key = documentKey('document_1');
+    await log.record({
+        userId: 'user-1',
+        channel: 'push',
+        context,
+        status: 'failed',
+        idempotencyKey: key,
+    });
+    const failedOnly = await log.hasSucceeded(key, 'push');
+    await log.record({
+        userId: 'user-1',
+        channel: 'push',
+        context,
+        status: 'sent',
+        idempotencyKey: key,
+    });
+    testReporter.addResult(testName, 'Sent Delivery Is A Duplicate', {
+        passed: !failedOnly && (await log.hasSucceeded(key, 'push')),
+        message: 'Only a sent delivery skips the retry',
+    });
+    testReporter.addResult(testName, 'Duplicates Are Per Channel', {
+        passed:
+            !(await log.hasSucceeded(key, 'email')) &&
+            !(await log.hasSucceeded(documentKey('document_2'), 'push')),
+        message: 'Other channels and other documents still go out',
+    });
+}
+
+/**
+ * Test: Notification Preferences
+ * Validates that the most specific matching preference wins, that password
+ * resets ignore opt-outs, and that a changed preference applies straight away
+ */
+async function testNotificationPreferences() {
+    console.log('\n📝 Testing Notification Preferences...');
+    const testName = 'Notification Preferences';
+
+    // In-memory notification_preferences, upserting on the scope like the
+    // table's unique index.
+    const rows: any[] = [];
+    const pool = {
+        query: async (sql: string, params: any[]) => {
+            if (sql.includes('INSERT INTO notification_preferences')) {
+                const [user_id, kind, channel, course_id, enabled] = params;
+                const existing = rows.find(
+                    (row) =>
+                        row.user_id === user_id &&
+                        row.kind === kind &&
+                        row.channel === channel &&
+                        row.course_id === course_id,
+                );
+                if (existing) existing.enabled = enabled;
+                else rows.push({ user_id, kind, channel, course_id, enabled });
+                return { rows: [] };
+            }
+            return { rows: rows.filter((row) => row.user_id === params[0]) };
+        },
+    } as unknown as Pool;
+    const preferences = new NotificationPreferences(pool);
+
+    testReporter.addResult(testName, 'Enabled By Default', {
+        passed: await preferences.isEnabled(
+            'user-1',
+            'score_published',
+            'push',
+        ),
+        message: 'Nothing is muted without a preference',
+    });
+
+    const mute = (
+        kind: NotificationKind | null,
+        channel: NotificationChannel | null,
+        courseId: number | null,
+        enabled: boolean,
+    ) =>
+        preferences.setPreference('user-1', {
+            kind,
+            channel,
+            courseId,
+            enabled,
+        });
+    await mute(null, 'email', null, false);
+    await mute('activity_posted', 'email', null, true);
+    await mute('score_published', null, null, true);
+    await mute(null, null, 5, false);
+
+    const cases: [
+        string,
+        NotificationKind,
+        NotificationChannel,
+        number | undefined,
+        boolean,
+    ][] = [
+        ['Channel Muted', 'new_document', 'email', undefined, false],
+        ['Other Channels Unaffected', 'new_document', 'push', undefined, true],
+        ['Kind Beats Channel', 'activity_posted', 'email', undefined, true],
+        ['Course Beats Kind', 'score_published', 'push', 5, false],
+        ['Other Courses Unaffected', 'score_published', 'push', 6, true],
+        ['Password Reset Always Sent', 'password_reset', 'email', 5, true],
+    ];
+    for (const [scenario, kind, channel, courseId, expected] of cases) {
+        testReporter.addResult(testName, scenario, {
+            passed:
+                (await preferences.isEnabled(
+                    'user-1',
+                    kind,
+                    channel,
+                    courseId,
+                )) === expected,
+            message: `${kind} by ${channel}${courseId ? ` in course ${courseId}` : ''} is ${expected ? 'enabled' : 'muted'}`,
+        });
+    }
+
+    await mute(null, 'email', null, true);
+    testReporter.addResult(testName, 'Changes Apply Immediately', {
+        passed:
+            (await preferences.isEnabled('user-1', 'new_document', 'email')) &&
+            rows.length === 4,
+        message: 'Setting a scope again overwrites it and clears the cache',
+    });
+    testReporter.addResult(testName, 'Listed As Stored', {
+        passed:
+            (await preferences.list('user-1')).length === 4 &&
+            (await preferences.list('user-2')).length === 0,
+        message: 'Each user sees only their own preferences',
+    });
+}
+
+/**
+ * Test: Dispatch Summary
+ * Validates that dispatch results are totalled per channel and status, and
+ * that a recipient failing on any channel is reported as failed
+ */
+function testDispatchSummary() {
+    console.log('\n📝 Testing Dispatch Summary...');
+    const testName = 'Dispatch Summary';
+
+    const recipients: RecipientResult[] = [
+        {
+            userId: 'user-1',
+            channels: {
+                push: { status: 'sent' },
+                email: { status: 'failed', error: 'timeout' },
+            },
+        },
+        {
+            userId: 'user-2',
+            channels: {
+                push: { status: 'sent' },
+                email: { status: 'duplicate' },
+            },
+        },
+        { userId: 'user-3', channels: { email: { status: 'suppressed' } } },
+    ];
+    const summary = summarize('score_published', recipients);
+    testReporter.addResult(testName, 'Totals Per Channel', {
+        passed:
+            summary.totals.push?.sent === 2 &&
+            summary.totals.email?.failed === 1 &&
+            summary.totals.email?.duplicate === 1 &&
+            summary.totals.email?.suppressed === 1,
+        message: 'Each channel counts its statuses',
+        details: summary.totals,
+    });
+    testReporter.addResult(testName, 'Failed Recipients', {
+        passed:
+            summary.recipientCount === 3 &&
+            summary.failedRecipients.join() === 'user-1',
+        message: 'A recipient failing on one channel is reported once',
+    });
+    testReporter.addResult(testName, 'Nothing Failed', {
+        passed: !summarize('score_published', recipients.slice(1))
+            .failedRecipients.length,
+        message: 'Duplicates and opt-outs are not failures',
+    });
+}
+
+/**
+ * Test: Push Subscriptions
+ * Validates which push errors mean a subscription is gone and which
+ * subscriptions have expired
+ */
+function testPushSubscriptions() {
+    console.log('\n📝 Testing Push Subscriptions...');
+    const testName = 'Push Subscriptions';
+
+    const errors: [string, unknown, boolean][] = [
+        ['HTTP 404', { statusCode: 404 }, true],
+        ['HTTP 410', { statusCode: 410 }, true],
+        ['HTTP 429', { statusCode: 429 }, false],
+        ['HTTP 500', { statusCode: 500 }, false],
+        ['No Status Code', new Error('socket hang up'), false],
+        ['Null', null, false],
+    ];
+    for (const [scenario, error, expected] of errors) {
+        testReporter.addResult(testName, `Gone: ${scenario}`, {
+            passed: isGonePushError(error) === expected,
+            message: expected ? 'Subscription is gone' : 'Worth retrying',
+        });
+    }
+
+    const now = new Date('2024-12-15T10:00:00.000Z');
+    const endpoint = 'https://push.example.com/abc';
+    const subscriptions: [string, number | null | undefined, boolean][] = [
+        ['Expired', now.getTime() - 1, true],
+        ['Expiring Now', now.getTime(), true],
+        ['Not Yet Expired', now.getTime() + 1, false],
+        ['No Expiration', null, false],
+        ['Expiration Unset', undefined, false],
+    ];
+    for (const [scenario, expirationTime, expected] of subscriptions) {
+        testReporter.addResult(testName, `Expiry: ${scenario}`, {
+            passed:
+                isExpiredSubscription({ endpoint, expirationTime }, now) ===
+                expected,
+            message: expected ? 'Expired' : 'Still usable',
+        });
+    }
+}
+
+/**
+ * Test: Tenant Resolution
+ * Validates that a notification without a course, group or run, like a
+ * password reset, is branded for the recipient's tenant
+ */
+async function testTenantResolution() {
+    console.log('\n📝 Testing Tenant Resolution...');
+    const testName = 'Tenant Resolution';
+
+    // In-memory tenants, courses and group memberships, enough for resolve.
+    const tenants = [
+        {
+            id: 2,
+            name: 'Example University',
+            app_url: 'https://learn.example.edu',
+            primary_color: '#0A3D62',
+            from_address: 'noreply@example.edu',
+            from_name: 'Example LearnX',
+        },
+    ];
+    const courseTenants: Record<number, number> = { 10: 2 };
+    const memberTenants: Record<string, number> = { 'user-2': 2 };
+    const queries: any[][] = [];
+    const pool = {
+        query: async (sql: string, params: any[]) => {
+            queries.push(params);
+            const [courseId, , , memberId] = params;
+            const tenantId =
+                courseId !== null
+                    ? courseTenants[courseId]
+                    : sql.includes('"group-members"') && memberId !== null
+                      ? memberTenants[memberId]
+                      : undefined;
+            return { rows: tenants.filter((tenant) => tenant.id === tenantId) };
+        },
+    } as unknown as Pool;
+    const tenantBranding = new TenantBranding(pool);
+
+    const branding = await tenantBranding.resolve({}, 'user-2');
+    const reset = renderNotificationContent(
+        'password_reset',
+        {
+            resetUrl: 'https://learn.example.edu/reset?token=abc',
+            expiresInMinutes: 30,
+        },
+        { id: 'user-2' },
+        branding,
+    );
+    testReporter.addResult(testName, 'Password Reset For Second Tenant', {
+        passed:
+            branding.name === 'Example University' &&
+            branding.fromAddress === 'noreply@example.edu' &&
+            !!reset.email &&
+            generateEmailTemplate(reset.email).includes('#0A3D62'),
+        message: "The reset email carries the recipient's tenant branding",
+        details: { name: branding.name, fromAddress: branding.fromAddress },
+    });
+
+    const scoped = await tenantBranding.resolve({ courseId: 11 }, 'user-2');
+    testReporter.addResult(testName, 'Context Before Recipient', {
+        passed:
+            scoped.name === defaultBranding().name &&
+            queries[queries.length - 1][3] === null,
+        message: "A course, group or run decides over the recipient's groups",
+    });
+
+    const before = queries.length;
+    const anonymous = await tenantBranding.resolve({});
+    testReporter.addResult(testName, 'Nothing To Go On', {
+        passed:
+            anonymous.name === defaultBranding().name &&
+            queries.length === before,
+        message: 'Default branding without a database query',
+    });
+}
+
+async function runAllTests() {
+    console.log('='.repeat(80));
+    console.log('DELIVERY TEST SUITE');
+    console.log('='.repeat(80));
+
+    try {
+        testPayloadSchemas();
+        await testTextMessages();
+        await testRetries();
+        await testIdempotencyKeys();
+        await testNotificationPreferences();
+        testDispatchSummary();
+        testPushSubscriptions();
+        await testTenantResolution();
+
+        testReporter.printSummary();
+        process.exit(testReporter.hasFailures() ? 1 : 0);
+    } catch (error) {
+        console.error('❌ Test suite failed with error:', error);
+        process.exit(1);
+    }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runAllTests();
+}
+
+export { runAllTests };
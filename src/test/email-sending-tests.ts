@@ -0,0 +1,559 @@
+import { createHmac } from 'crypto';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+    parseZeptoMailEvents,
+    verifyZeptoMailSignature,
+} from '../lib/email-events';
+import { EmailPipeline } from '../lib/email-pipeline';
+import {
+    applyMergeFields,
+    BatchEmail,
+    FileTransport,
+    getEmailTransport,
+} from '../lib/email-transport';
+import {
+    emailTracking,
+    readTrackingToken,
+    signTrackingToken,
+    trackingMergeFields,
+} from '../lib/email-tracking';
+import { generateEmailTemplate } from '../lib/email-template';
+import { markup } from '../lib/html';
+import { isPermanentError } from '../lib/retry';
+import { chunk, Throttle } from '../lib/throttle';
+import { expectText, TestReporter } from './test-utils';
+
+/**
+ * Email Sending Test Suite
+ *
+ * Validates what happens to an email after it is rendered:
+ * 1. Provider calls are throttled and identical emails batched, tracked
+ *    ones too
+ * 2. The file transport writes .eml files instead of sending
+ * 3. Missing or unknown transport configuration fails permanently
+ * 4. Bounce and complaint webhooks suppress addresses
+ * 5. Opens and clicks are tracked through signed links
+ *
+ * Providers are replaced by fakes - NO EMAIL IS SENT
+ */
+
+const testReporter = new TestReporter();
+
+/**
+ * Test: Sending Pipeline
+ * Validates throttled provider calls and batching of identical emails
+ */
+async function testSendingPipeline() {
+    console.log('\n📝 Testing Sending Pipeline...');
+    const testName = 'Sending Pipeline';
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const throttle = new Throttle({ concurrency: 2 });
+    await Promise.all(
+        Array.from({ length: 6 }, () =>
+            throttle.run(async () => {
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                inFlight--;
+            }),
+        ),
+    );
+    testReporter.addResult(testName, 'Concurrency Limit', {
+        passed: maxInFlight === 2,
+        message: `At most ${maxInFlight} calls in flight`,
+    });
+
+    const rateLimited = new Throttle({ concurrency: 10, perSecond: 2 });
+    const startedAt: number[] = [];
+    await Promise.all(
+        Array.from({ length: 3 }, () =>
+            rateLimited.run(async () => {
+                startedAt.push(Date.now());
+            }),
+        ),
+    );
+    testReporter.addResult(testName, 'Rate Limit', {
+        passed: startedAt[2] - startedAt[0] >= 990,
+        message: 'The third call waits for the next second',
+    });
+
+    const calls: { to: string | string[] }[] = [];
+    const pipeline = new EmailPipeline(
+        {
+            name: 'test',
+            send: async (email) => {
+                calls.push({ to: email.to });
+                return { messageId: `single-${email.to}` };
+            },
+            sendBatch: async (email) => {
+                calls.push({ to: email.to });
+                return { messageId: 'batch-1' };
+            },
+        },
+        { concurrency: 2, perSecond: 100, batchSize: 50, batchWindowMs: 10 },
+    );
+    const email = (to: string, subject = 'New activity') => ({
+        from: { address: 'tech@example.com', name: 'LearnX' },
+        to,
+        subject,
+        html: '<p>Hello</p>',
+        text: 'Hello',
+    });
+    const results = await Promise.all([
+        ...['a', 'b', 'c'].map((to) => pipeline.send(email(`${to}@x.com`))),
+        pipeline.send(email('d@x.com', 'Different subject')),
+    ]);
+    testReporter.addResult(testName, 'Identical Emails Batched', {
+        passed:
+            calls.length === 2 &&
+            calls.some(
+                (call) =>
+                    Array.isArray(call.to) &&
+                    call.to.join() === 'a@x.com,b@x.com,c@x.com',
+            ) &&
+            results[0].messageId === 'batch-1' &&
+            results[3].messageId === 'single-d@x.com',
+        message: 'Three identical emails share one batch call',
+        details: calls,
+    });
+
+    const batches: BatchEmail[] = [];
+    const trackedPipeline = new EmailPipeline(
+        {
+            name: 'test',
+            send: async () => ({ messageId: 'single' }),
+            sendBatch: async (email) => {
+                batches.push(email);
+                return { messageId: 'batch-2' };
+            },
+        },
+        { concurrency: 2, perSecond: 100, batchSize: 50, batchWindowMs: 10 },
+    );
+    const trackingSettings = {
+        baseUrl: 'https://notify.example.com',
+        secret: 'secret',
+    };
+    const tracked = (to: string, userId: string) => {
+        const { tracking, mergeFields } = trackingMergeFields(
+            emailTracking(
+                {
+                    idempotencyKey: `score_published:42:7:${userId}`,
+                    userId,
+                    kind: 'score_published',
+                },
+                trackingSettings,
+            )!,
+        );
+        return {
+            ...email(to),
+            html: generateEmailTemplate({
+                heading: 'Score published',
+                subheading: 'Quiz 1',
+                body: markup`<p>Your score is ready.</p>`,
+                ctaUrl: 'https://learnx.example.com/runs/7',
+                tracking,
+            }),
+            mergeFields,
+        };
+    };
+    const trackedEmails = [tracked('a@x.com', 'u1'), tracked('b@x.com', 'u2')];
+    await Promise.all(
+        trackedEmails.map((tracked) => trackedPipeline.send(tracked)),
+    );
+    testReporter.addResult(testName, 'Tracked Emails Batched', {
+        passed:
+            batches.length === 1 &&
+            batches[0].to.join() === 'a@x.com,b@x.com' &&
+            batches[0].mergeFields?.length === 2 &&
+            batches[0].mergeFields[0].tracking_open !==
+                batches[0].mergeFields[1].tracking_open,
+        message:
+            'Emails that only differ in tracking share one batch call with per-recipient merge fields',
+        details: batches.map((batch) => batch.mergeFields),
+    });
+    const merged = applyMergeFields(trackedEmails[1]);
+    testReporter.addResult(testName, 'Tracking Merged Per Recipient', {
+        passed:
+            readTrackingToken(
+                merged.html.match(/\/email\/open\/([^"]+)"/)?.[1] ?? '',
+                'secret',
+            )?.userId === 'u2' &&
+            readTrackingToken(
+                merged.html.match(/\/email\/click\/([^"]+)"/)?.[1] ?? '',
+                'secret',
+            )?.url === 'https://learnx.example.com/runs/7' &&
+            !merged.html.includes('{{'),
+        message:
+            "Each recipient's own pixel and redirect fill the placeholders",
+    });
+
+    const failingBatch = new EmailPipeline(
+        {
+            name: 'test',
+            send: async (email) => {
+                if (email.to === 'bad@x.com') {
+                    throw new Error('Invalid address');
+                }
+                return { messageId: `single-${email.to}` };
+            },
+            sendBatch: async () => {
+                throw new Error('Invalid address in batch');
+            },
+        },
+        { concurrency: 2, perSecond: 100, batchSize: 50, batchWindowMs: 10 },
+    );
+    const settled = await Promise.allSettled(
+        ['good@x.com', 'bad@x.com'].map((to) => failingBatch.send(email(to))),
+    );
+    testReporter.addResult(testName, 'Rejected Batch Sent One By One', {
+        passed:
+            settled[0].status === 'fulfilled' &&
+            settled[0].value.messageId === 'single-good@x.com' &&
+            settled[1].status === 'rejected' &&
+            settled[1].reason.message === 'Invalid address',
+        message: 'Only the bad address fails when its batch is rejected',
+    });
+
+    testReporter.addResult(testName, 'Chunks', {
+        passed:
+            chunk([1, 2, 3, 4, 5], 2)
+                .map((part) => part.join(''))
+                .join() === '12,34,5',
+        message: 'Recipients split into chunks of the given size',
+    });
+}
+
+/**
+ * Test: File Transport
+ * Validates that the file transport writes each email as an .eml file
+ * instead of sending it
+ */
+async function testFileTransport() {
+    console.log('\n📝 Testing File Transport...');
+    const testName = 'File Transport';
+
+    const directory = await mkdtemp(path.join(tmpdir(), 'learnx-emails-'));
+    try {
+        const transport = new FileTransport(directory);
+        const result = await transport.send({
+            from: { address: 'noreply@example.edu', name: 'LearnX' },
+            to: 'student/1@example.edu',
+            subject: 'Quiz 1 is due soon',
+            html: '<p>Submit before the deadline.</p>',
+            text: 'Submit before the deadline.',
+        });
+
+        const files = await readdir(directory);
+        testReporter.addResult(testName, 'One File Per Email', {
+            passed:
+                files.length === 1 &&
+                files[0].endsWith('-student_1@example.edu.eml') &&
+                !!result.messageId,
+            message:
+                'Named after the send time, message id and a file-safe recipient',
+            details: files,
+        });
+
+        const sameMoment = await mkdtemp(path.join(directory, 'burst-'));
+        const burst = new FileTransport(sameMoment);
+        await Promise.all(
+            ['First', 'Second', 'Third'].map((subject) =>
+                burst.send({
+                    from: { address: 'noreply@example.edu', name: 'LearnX' },
+                    to: 'student@example.edu',
+                    subject,
+                    html: `<p>${subject}</p>`,
+                    text: subject,
+                }),
+            ),
+        );
+        const burstFiles = await readdir(sameMoment);
+        testReporter.addResult(testName, 'Same Recipient At Once', {
+            passed: burstFiles.length === 3,
+            message: 'Emails written together never overwrite each other',
+            details: burstFiles,
+        });
+
+        const message = files.length
+            ? await readFile(path.join(directory, files[0]), 'utf8')
+            : '';
+        for (const expected of [
+            'To: student/1@example.edu',
+            'Subject: Quiz 1 is due soon',
+            'Submit before the deadline.',
+            'Content-Type: text/html',
+        ]) {
+            expectText(
+                testReporter,
+                testName,
+                `Message: ${expected}`,
+                message,
+                expected,
+            );
+        }
+    } finally {
+        await rm(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Test: Transport Config
+ * Validates that a missing ZeptoMail token or an unknown EMAIL_TRANSPORT
+ * fails permanently, so sends aren't retried and dead-lettered as transient
+ */
+function testTransportConfig() {
+    console.log('\n📝 Testing Transport Config...');
+    const testName = 'Transport Config';
+
+    const env = ['EMAIL_TRANSPORT', 'ZEPTO_TOKEN'].map(
+        (name) => [name, process.env[name]] as const,
+    );
+    const configError = (transportName: string) => {
+        env.forEach(([name]) => delete process.env[name]);
+        process.env.EMAIL_TRANSPORT = transportName;
+        try {
+            getEmailTransport();
+        } catch (error) {
+            return error;
+        } finally {
+            env.forEach(([name, value]) => {
+                if (value === undefined) delete process.env[name];
+                else process.env[name] = value;
+            });
+        }
+    };
+
+    for (const [scenario, transportName] of [
+        ['Missing ZeptoMail Token Is Permanent', 'zeptomail'],
+        ['Unknown Transport Is Permanent', 'carrier-pigeon'],
+    ]) {
+        const error = configError(transportName);
+        testReporter.addResult(testName, scenario, {
+            passed: error !== undefined && isPermanentError(error),
+            message: 'Sends are not retried until the config is fixed',
+            details: error instanceof Error ? error.message : error,
+        });
+    }
+}
+
+/**
+ * Test: Email Events
+ * Validates ZeptoMail webhook signatures and which bounce and complaint
+ * events suppress an address
+ */
+function testEmailEvents() {
+    console.log('\n📝 Testing Email Events...');
+    const testName = 'Email Events';
+
+    const body = Buffer.from('{"event_name":["hardbounce"]}');
+    const signature = createHmac('sha256', 'secret')
+        .update(body)
+        .digest('base64');
+    const header = `ts=1700000000000;s=${signature};s-algorithm=HmacSHA256`;
+    const sentAt = new Date(1700000000000);
+    testReporter.addResult(testName, 'Valid Signature', {
+        passed: verifyZeptoMailSignature(body, header, 'secret', sentAt),
+        message: 'Body signed with the webhook secret is accepted',
+    });
+    testReporter.addResult(testName, 'Invalid Signature', {
+        passed:
+            !verifyZeptoMailSignature(body, header, 'other-secret', sentAt) &&
+            !verifyZeptoMailSignature(
+                Buffer.from('{"event_name":["feedback_loop"]}'),
+                header,
+                'secret',
+                sentAt,
+            ) &&
+            !verifyZeptoMailSignature(body, undefined, 'secret', sentAt),
+        message: 'Wrong secret, altered body or missing header is rejected',
+    });
+    const minutes = (count: number) =>
+        new Date(sentAt.getTime() + count * 60 * 1000);
+    testReporter.addResult(testName, 'Recent Timestamp', {
+        passed:
+            verifyZeptoMailSignature(body, header, 'secret', minutes(4)) &&
+            verifyZeptoMailSignature(body, header, 'secret', minutes(-4)),
+        message: 'Accepted within five minutes of our clock',
+    });
+    testReporter.addResult(testName, 'Replayed Webhook', {
+        passed:
+            !verifyZeptoMailSignature(body, header, 'secret', minutes(6)) &&
+            !verifyZeptoMailSignature(body, header, 'secret', minutes(-6)) &&
+            !verifyZeptoMailSignature(
+                body,
+                `s=${signature};s-algorithm=HmacSHA256`,
+                'secret',
+                sentAt,
+            ),
+        message: 'Old, future or missing timestamps are rejected',
+    });
+
+    const event = (object: string, address: string) => ({
+        event_name: [object],
+        event_message: [
+            {
+                email_info: {
+                    to: [{ email_address: { address } }],
+                },
+                event_data: [
+                    {
+                        object,
+                        details: [
+                            {
+                                bounced_recipient: address,
+                                reason: 'Mailbox does not exist',
+                                diagnostic_message: '550 5.1.1 User unknown',
+                            },
+                        ],
+                    },
+                ],
+            },
+        ],
+    });
+    const hardBounce = parseZeptoMailEvents(
+        event('hardbounce', 'Gone@Example.com'),
+    );
+    testReporter.addResult(testName, 'Hard Bounce', {
+        passed:
+            hardBounce.length === 1 &&
+            hardBounce[0].address === 'gone@example.com' &&
+            hardBounce[0].reason === 'hard_bounce' &&
+            hardBounce[0].detail ===
+                'Mailbox does not exist: 550 5.1.1 User unknown',
+        message: 'Hard bounce suppresses the lower-cased address',
+        details: hardBounce,
+    });
+    testReporter.addResult(testName, 'Complaint', {
+        passed:
+            parseZeptoMailEvents(event('feedback_loop', 'a@x.com'))[0]
+                ?.reason === 'complaint',
+        message: 'Spam complaint suppresses the address',
+    });
+    testReporter.addResult(testName, 'Soft Bounce Ignored', {
+        passed:
+            parseZeptoMailEvents(event('softbounce', 'a@x.com')).length === 0 &&
+            parseZeptoMailEvents({}).length === 0,
+        message: 'Soft bounces and empty bodies suppress nothing',
+    });
+}
+
+/**
+ * Test: Email Tracking
+ * Validates signed tracking tokens and that the open pixel and click redirect
+ * are only added when tracking is on
+ */
+function testEmailTracking() {
+    console.log('\n📝 Testing Email Tracking...');
+    const testName = 'Email Tracking';
+
+    const email = {
+        idempotencyKey: 'score_published:42:7:user-1',
+        userId: 'user-1',
+        kind: 'score_published' as const,
+        runId: 7,
+    };
+    const token = signTrackingToken(
+        { ...email, url: 'https://learnx.example.com/runs/7' },
+        'secret',
+    );
+    const read = readTrackingToken(token, 'secret');
+    testReporter.addResult(testName, 'Token Round Trip', {
+        passed:
+            read?.idempotencyKey === email.idempotencyKey &&
+            read?.url === 'https://learnx.example.com/runs/7',
+        message: 'Signed token reads back with its delivery and link',
+    });
+
+    const [data, signature] = token.split('.');
+    const forged = Buffer.from(
+        JSON.stringify({ ...email, url: 'https://evil.example.com' }),
+    ).toString('base64url');
+    testReporter.addResult(testName, 'Tampered Token Rejected', {
+        passed:
+            readTrackingToken(`${forged}.${signature}`, 'secret') === null &&
+            readTrackingToken(token, 'other-secret') === null &&
+            readTrackingToken(data, 'secret') === null,
+        message: 'Changed link, wrong secret or missing signature is rejected',
+    });
+
+    const settings = {
+        baseUrl: 'https://notify.example.com',
+        secret: 'secret',
+    };
+    const tracking = emailTracking(email, settings)!;
+    const html = generateEmailTemplate({
+        heading: 'Score published',
+        subheading: 'Quiz 1',
+        body: markup`<p>Your score is ready.</p>`,
+        ctaUrl: 'https://learnx.example.com/runs/7',
+        tracking,
+    });
+    const clickToken = html.match(
+        /href="https:\/\/notify\.example\.com\/email\/click\/([^"]+)"/,
+    )?.[1];
+    testReporter.addResult(testName, 'CTA Through Redirect', {
+        passed:
+            readTrackingToken(clickToken ?? '', 'secret')?.url ===
+                'https://learnx.example.com/runs/7' &&
+            !html.includes('href="https://learnx.example.com/runs/7"'),
+        message: 'CTA links to the click redirect for its URL',
+    });
+    expectText(
+        testReporter,
+        testName,
+        'Open Pixel',
+        html,
+        `<img src="https://notify.example.com/email/open/`,
+    );
+
+    const untracked = generateEmailTemplate({
+        heading: 'Score published',
+        subheading: 'Quiz 1',
+        body: markup`<p>Your score is ready.</p>`,
+        ctaUrl: 'https://learnx.example.com/runs/7',
+    });
+    testReporter.addResult(testName, 'Off By Default', {
+        passed:
+            !untracked.includes('/email/open/') &&
+            untracked.includes('href="https://learnx.example.com/runs/7"') &&
+            emailTracking(email, null) === undefined,
+        message: 'No pixel or redirect without tracking settings',
+    });
+    testReporter.addResult(testName, 'Password Reset Untracked', {
+        passed:
+            emailTracking({ ...email, kind: 'password_reset' }, settings) ===
+            undefined,
+        message: 'Reset links never go through the redirect',
+    });
+}
+
+async function runAllTests() {
+    console.log('='.repeat(80));
+    console.log('EMAIL SENDING TEST SUITE');
+    console.log('='.repeat(80));
+
+    try {
+        await testSendingPipeline();
+        await testFileTransport();
+        testTransportConfig();
+        testEmailEvents();
+        testEmailTracking();
+
+        testReporter.printSummary();
+        process.exit(testReporter.hasFailures() ? 1 : 0);
+    } catch (error) {
+        console.error('❌ Test suite failed with error:', error);
+        process.exit(1);
+    }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,799 @@
+import { defaultBranding, tenantBranding } from '../lib/branding';
+import { appUrl, deepLinks } from '../lib/deep-links';
+import {
+    emailTemplates,
+    generateEmailTemplate,
+    generateEmailText,
+} from '../lib/email-template';
+import {
+    escapeHtml,
+    htmlToText,
+    markup,
+    safeUrl,
+    trustedHtml,
+} from '../lib/html';
+import { resolveLocale } from '../lib/i18n';
+import { renderNotificationContent } from '../lib/notification-content';
+import { getKindDefinition } from '../lib/notification-kinds';
+import { NOTIFICATION_KINDS } from '../lib/notification-types';
+import { expectText, expectThrows, TestReporter } from './test-utils';
+
+/**
+ * Email Template Test Suite
+ *
+ * Validates that emailTemplates and generateEmailTemplate:
+ * 1. Escape user-sourced values (activity, run, group and document names)
+ * 2. Insert explicitly trusted HTML fragments unchanged
+ * 3. Reject unsafe URLs passed as ctaUrl or resetUrl
+ * 4. Render a readable plain-text part with lists, links, CTA and footer
+ * 5. Render in the recipient's language, falling back to English
+ * 6. Build in-app inbox entries from the push text
+ * 7. Link every channel to the same page in the web app
+ * 8. Carry the tenant's branding
+ *
+ * Templates are pure functions - NO DATABASE REQUIRED
+ */
+
+const testReporter = new TestReporter();
+
+const MALICIOUS_TITLE = '<script>alert("x")</script>';
+const ESCAPED_TITLE = '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;';
+
+function expectEscaped(testName: string, scenario: string, output: string) {
+    const passed =
+        output.includes(ESCAPED_TITLE) && !output.includes('<script>');
+    testReporter.addResult(testName, scenario, {
+        passed,
+        message: passed
+            ? 'Malicious title is escaped'
+            : 'Malicious title was inserted as raw HTML',
+        details: passed ? undefined : { output },
+    });
+}
+
+/**
+ * Test: Malicious Titles
+ * Validates that every template escapes the names it interpolates
+ */
+function testMaliciousTitlesAreEscaped() {
+    console.log('\n📝 Testing Malicious Titles Are Escaped...');
+    const testName = 'Malicious Titles Are Escaped';
+    const t = MALICIOUS_TITLE;
+
+    const rendered: Record<string, string> = {
+        activityPosted: emailTemplates.activityPosted(t, t).body.toString(),
+        addedToGroup: emailTemplates.addedToGroup(t).body.toString(),
+        deadlineSoon: emailTemplates.deadlineSoon(t, t, t).body.toString(),
+        newDocument: emailTemplates.newDocument(t, t).body.toString(),
+        adminDeadline: emailTemplates.adminDeadline(t, t, t).body.toString(),
+        redoEnabled: emailTemplates.redoEnabled(t, t, t).body.toString(),
+        scorePublished: emailTemplates.scorePublished(t, t).body.toString(),
+        missedDeadline: emailTemplates.missedDeadline(t, t).body.toString(),
+        facilitatorSummary: emailTemplates
+            .facilitatorSummary(t, t, 3, 4)
+            .body.toString(),
+        courseRunFinalize: emailTemplates
+            .courseRunFinalize(t, t, t)
+            .body.toString(),
+    };
+
+    for (const [template, output] of Object.entries(rendered)) {
+        expectEscaped(testName, template, output);
+    }
+}
+
+/**
+ * Test: Special Characters
+ * Validates that ampersands and quotes render as entities
+ */
+function testSpecialCharactersAreEscaped() {
+    console.log('\n📝 Testing Special Characters Are Escaped...');
+    const testName = 'Special Characters Are Escaped';
+
+    const body = emailTemplates
+        .activityPosted(`Q&A: "Week 1" isn't over`, 'R&D Batch')
+        .body.toString();
+    const passed =
+        body.includes('Q&amp;A: &quot;Week 1&quot; isn&#39;t over') &&
+        body.includes('R&amp;D Batch');
+    testReporter.addResult(testName, 'Ampersands And Quotes', {
+        passed,
+        message: passed
+            ? 'Ampersands and quotes are escaped'
+            : 'Special characters were not escaped',
+        details: passed ? undefined : { body },
+    });
+
+    const escaped = escapeHtml(`<a href="x">Tom & Jerry's</a>`);
+    testReporter.addResult(testName, 'escapeHtml', {
+        passed:
+            escaped ===
+            '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;',
+        message: `Escaped to ${escaped}`,
+    });
+}
+
+/**
+ * Test: Layout Escaping
+ * Validates that generateEmailTemplate escapes heading, subheading and CTA
+ * text while keeping the trusted body
+ */
+function testLayoutEscapesParams() {
+    console.log('\n📝 Testing Layout Escapes Params...');
+    const testName = 'Layout Escapes Params';
+
+    const output = generateEmailTemplate({
+        heading: MALICIOUS_TITLE,
+        subheading: MALICIOUS_TITLE,
+        body: trustedHtml('<p id="trusted-body">Body</p>'),
+        ctaText: MALICIOUS_TITLE,
+        ctaUrl: 'https://learnx.atriauniversity.in/courses',
+    });
+
+    expectEscaped(testName, 'Heading, Subheading And CTA Text', output);
+    testReporter.addResult(testName, 'Trusted Body Kept', {
+        passed: output.includes('<p id="trusted-body">Body</p>'),
+        message: 'Trusted body is inserted unchanged',
+    });
+}
+
+/**
+ * Test: Trusted Fragments
+ * Validates that trusted and nested fragments are not escaped twice
+ */
+function testTrustedFragments() {
+    console.log('\n📝 Testing Trusted Fragments...');
+    const testName = 'Trusted Fragments';
+
+    const items = ['A & B', 'C < D'].map((item) => markup`<li>${item}</li>`);
+    const list = markup`<ul>${items}</ul>${trustedHtml('<hr>')}`.toString();
+    const expected = '<ul><li>A &amp; B</li><li>C &lt; D</li></ul><hr>';
+    testReporter.addResult(testName, 'Nested Markup And Trusted HTML', {
+        passed: list === expected,
+        message: `Rendered ${list}`,
+    });
+
+    const digest = emailTemplates
+        .dailyDigest('1 Dec 2024', [
+            {
+                title: MALICIOUS_TITLE,
+                items: [
+                    {
+                        title: MALICIOUS_TITLE,
+                        summary: markup`Added to <strong>${MALICIOUS_TITLE}</strong>.`,
+                    },
+                ],
+            },
+        ])
+        .body.toString();
+    expectEscaped(testName, 'Daily Digest Titles', digest);
+    testReporter.addResult(testName, 'Daily Digest Summary Markup Kept', {
+        passed: digest.includes(`Added to <strong>${ESCAPED_TITLE}</strong>.`),
+        message: 'Digest summaries keep their markup',
+    });
+
+    const stored = JSON.parse(
+        JSON.stringify({ body: markup`<p>${MALICIOUS_TITLE}</p>` }),
+    );
+    testReporter.addResult(testName, 'Stored As Escaped HTML', {
+        passed: stored.body === `<p>${ESCAPED_TITLE}</p>`,
+        message: 'Serialised markup is the escaped HTML string',
+    });
+}
+
+/**
+ * Test: URL Validation
+ * Validates that only absolute http(s)/mailto URLs reach an href
+ */
+function testUrlValidation() {
+    console.log('\n📝 Testing URL Validation...');
+    const testName = 'URL Validation';
+
+    for (const url of [
+        'https://learnx.atriauniversity.in/reset?token=abc',
+        'mailto:support@xcelerator.co.in',
+    ]) {
+        testReporter.addResult(testName, `Accepts ${url}`, {
+            passed: safeUrl(url) === url,
+            message: 'URL accepted',
+        });
+    }
+
+    for (const url of [
+        'javascript:alert(1)',
+        'data:text/html,<script>alert(1)</script>',
+        '/relative/path',
+    ]) {
+        expectThrows(testReporter, testName, `Rejects ${url}`, () =>
+            safeUrl(url),
+        );
+    }
+
+    expectThrows(testReporter, testName, 'Rejects javascript: resetUrl', () =>
+        emailTemplates.passwordResetEmail('javascript:alert(1)', 30),
+    );
+    expectThrows(testReporter, testName, 'Rejects javascript: ctaUrl', () =>
+        generateEmailTemplate({
+            heading: 'Heading',
+            subheading: 'Subheading',
+            body: trustedHtml(''),
+            ctaUrl: 'javascript:alert(1)',
+        }),
+    );
+
+    const resetBody = emailTemplates
+        .passwordResetEmail('https://learnx.in/reset?t="onmouseover="x', 30)
+        .body.toString();
+    const passed =
+        resetBody.includes('href="https://learnx.in/reset?t=&quot;') &&
+        !resetBody.includes('"onmouseover="');
+    testReporter.addResult(testName, 'Quotes In resetUrl Escaped', {
+        passed,
+        message: passed
+            ? 'Quotes cannot break out of the href attribute'
+            : 'resetUrl broke out of the href attribute',
+        details: passed ? undefined : { resetBody },
+    });
+}
+
+/**
+ * Test: Plain Text Lists
+ * Validates that ordered and unordered lists keep one item per line
+ */
+function testPlainTextLists() {
+    console.log('\n📝 Testing Plain Text Lists...');
+    const testName = 'Plain Text Lists';
+
+    const scoreText = htmlToText(
+        emailTemplates.scorePublished('Quiz 1', 'Run A').body.toString(),
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Ordered List Steps',
+        scoreText,
+        [
+            'How to check your score:',
+            '',
+            '1. Go to the home page.',
+            '2. Select the Grades option in the sidebar.',
+            '3. Choose the appropriate course run.',
+            '4. Find the Quiz 1 in the list to view your score.',
+        ].join('\n'),
+    );
+
+    const summaryText = htmlToText(
+        emailTemplates
+            .facilitatorSummary('Quiz 1', 'Run A', 3, 4)
+            .body.toString(),
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Unordered List Items',
+        summaryText,
+        '- Students who submitted: 3\n- Students who did not submit: 4',
+    );
+}
+
+/**
+ * Test: Plain Text Paragraphs And Entities
+ * Validates paragraph breaks and that escaped characters read normally
+ */
+function testPlainTextParagraphs() {
+    console.log('\n📝 Testing Plain Text Paragraphs...');
+    const testName = 'Plain Text Paragraphs';
+
+    const text = htmlToText(
+        emailTemplates
+            .activityPosted(`Q&A "Week 1"`, 'R&D <Batch>')
+            .body.toString(),
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Paragraphs Separated By Blank Lines',
+        text,
+        'Hello,\n\nA new activity Q&A "Week 1" has been added to R&D <Batch>.\n\nVisit your dashboard',
+    );
+    testReporter.addResult(testName, 'No Tags Left', {
+        passed: !/<\/?(p|strong)/.test(text),
+        message: 'Markup is stripped',
+    });
+}
+
+/**
+ * Test: Plain Text Links, CTA And Footer
+ * Validates that link targets, the CTA URL and the support footer survive
+ */
+function testPlainTextLinksAndFooter() {
+    console.log('\n📝 Testing Plain Text Links And Footer...');
+    const testName = 'Plain Text Links And Footer';
+
+    const resetUrl = 'https://learnx.atriauniversity.in/reset?token=a&b=1';
+    const reset = emailTemplates.passwordResetEmail(resetUrl, 30);
+    const text = generateEmailText({
+        ...reset,
+        ctaText: 'Reset Password',
+        ctaUrl: resetUrl,
+    });
+
+    expectText(testReporter, testName, 'Heading', text, 'Reset Password\n\n');
+    expectText(
+        testReporter,
+        testName,
+        'Reset Link In Body',
+        text,
+        `\n${resetUrl}\n`,
+    );
+    expectText(
+        testReporter,
+        testName,
+        'CTA URL',
+        text,
+        `Reset Password: ${resetUrl}`,
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Support Address',
+        text,
+        'For any assistance, contact us at support@xcelerator.co.in.',
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Sign-off',
+        text,
+        'Regards,\nTeam Xcelerator',
+    );
+
+    const linkText = htmlToText(
+        markup`<p>Open <a href="${'https://learnx.in/a?x=1&y=2'}">your dashboard</a>.</p>`.toString(),
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Link Target After Text',
+        linkText,
+        'Open your dashboard (https://learnx.in/a?x=1&y=2).',
+    );
+
+    const defaultCta = generateEmailText({
+        heading: 'Heading',
+        subheading: 'Subheading',
+        body: markup`<p>Body</p>`,
+    });
+    expectText(
+        testReporter,
+        testName,
+        'Default CTA URL',
+        defaultCta,
+        'Go to LearnX: https://learnx.atriauniversity.in',
+    );
+}
+
+/**
+ * Test: Localized Content
+ * Validates Hindi/Kannada rendering and the fallback to English
+ */
+function testLocalizedContent() {
+    console.log('\n📝 Testing Localized Content...');
+    const testName = 'Localized Content';
+
+    testReporter.addResult(testName, 'Resolve Locale', {
+        passed:
+            resolveLocale('kn-IN') === 'kn' &&
+            resolveLocale('HI') === 'hi' &&
+            resolveLocale('fr') === 'en' &&
+            resolveLocale(null) === 'en',
+        message: 'Region tags are stripped and unknown locales use English',
+    });
+
+    const inputs = {
+        courseActivityId: 1,
+        runId: 1,
+        activityName: 'Quiz 1',
+        runName: 'Run A',
+    };
+    const hindi = renderNotificationContent('score_published', inputs, {
+        id: 'user-1',
+        name: 'Asha',
+        locale: 'hi',
+    });
+    expectText(
+        testReporter,
+        testName,
+        'Hindi Push Title',
+        hindi.push?.title ?? '',
+        'अंक प्रकाशित: Quiz 1',
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Hindi Email Subject',
+        hindi.email?.subject ?? '',
+        'आपके अंक अब उपलब्ध हैं',
+    );
+    testReporter.addResult(testName, 'Push Data Shared Across Locales', {
+        passed: hindi.push?.data?.courseActivityId === 1,
+        message: 'Push data does not depend on the language',
+    });
+
+    const hindiHtml = generateEmailTemplate(hindi.email!);
+    const hindiText = generateEmailText(hindi.email!);
+    testReporter.addResult(testName, 'Hindi Layout', {
+        passed:
+            hindiHtml.includes('<html lang="hi">') &&
+            hindiHtml.includes('LearnX पर जाएँ') &&
+            !hindiHtml.includes('Go to LearnX'),
+        message: 'CTA and lang attribute follow the locale',
+    });
+    expectText(
+        testReporter,
+        testName,
+        'Hindi Sign-off',
+        hindiText,
+        'सादर,\nTeam Xcelerator',
+    );
+
+    const kannada = renderNotificationContent(
+        'redo_enabled',
+        {
+            courseActivityId: 1,
+            runId: 2,
+            activityName: 'Quiz 1',
+            courseInfo: 'Run A',
+            newDeadline: '2024-12-15T18:29:59Z',
+        },
+        { id: 'user-1', locale: 'kn' },
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Kannada Deadline Formatting',
+        kannada.push?.body ?? '',
+        '2024-12-15 11:59:59 ಅಪರಾಹ್ನ IST',
+    );
+
+    const fallback = renderNotificationContent(
+        'manager_warning',
+        {
+            courseActivityId: 1,
+            runId: 2,
+            activityName: 'Quiz 1',
+            runName: 'Run A',
+            deadline: '2024-12-15 11:59:59 PM',
+        },
+        { id: 'user-2', locale: 'kn' },
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Untranslated Kind Falls Back To English',
+        fallback.email?.subject ?? '',
+        'Upcoming Deadline in Your Course Run',
+    );
+    testReporter.addResult(testName, 'Fallback Keeps Recipient Layout', {
+        passed: generateEmailTemplate(fallback.email!).includes(
+            '<html lang="kn">',
+        ),
+        message: 'Layout still follows the recipient locale',
+    });
+
+    const english = renderNotificationContent('score_published', inputs, {
+        id: 'user-3',
+    });
+    expectText(
+        testReporter,
+        testName,
+        'Default Locale Is English',
+        english.push?.title ?? '',
+        'Score Published: Quiz 1',
+    );
+}
+
+/**
+ * Test: In-App Content
+ * Validates that inbox entries reuse the push text and that email-only kinds
+ * never reach the inbox
+ */
+function testInAppContent() {
+    console.log('\n📝 Testing In-App Content...');
+    const testName = 'In-App Content';
+
+    const content = renderNotificationContent(
+        'score_published',
+        {
+            courseActivityId: 1,
+            runId: 2,
+            activityName: 'Quiz 1',
+            runName: 'Run A',
+        },
+        { id: 'user-1', name: 'Asha', locale: 'hi' },
+    );
+    testReporter.addResult(testName, 'Same Text As Push', {
+        passed:
+            content.inApp?.title === content.push?.title &&
+            content.inApp?.body === content.push?.body,
+        message: 'The inbox shows the localized push text',
+    });
+
+    const reset = renderNotificationContent(
+        'password_reset',
+        { resetUrl: 'https://learnx.example.com/reset', expiresInMinutes: 30 },
+        { id: 'user-1' },
+    );
+    testReporter.addResult(testName, 'Email-Only Kinds Skip Inbox', {
+        passed:
+            !reset.inApp &&
+            !getKindDefinition('password_reset').channels.includes('in_app'),
+        message: 'Password resets stay out of the inbox',
+    });
+    testReporter.addResult(testName, 'Push Kinds Go To Inbox', {
+        passed: NOTIFICATION_KINDS.map(getKindDefinition)
+            .filter((definition) => definition.channels.includes('push'))
+            .every((definition) => definition.channels.includes('in_app')),
+        message: 'Every kind sent as push is also kept in the inbox',
+    });
+}
+
+/**
+ * Test: Deep Links
+ * Validates that push, email and inbox link to the same page in the web app,
+ * relative to the configured base URL
+ */
+function testDeepLinks() {
+    console.log('\n📝 Testing Deep Links...');
+    const testName = 'Deep Links';
+
+    const redo = renderNotificationContent(
+        'redo_enabled',
+        {
+            courseActivityId: 42,
+            runId: 7,
+            activityName: 'Quiz 1',
+            courseInfo: 'Run A',
+            newDeadline: '2024-12-15T18:29:59.000Z',
+        },
+        { id: 'user-1' },
+    );
+    const activityUrl =
+        'https://learnx.atriauniversity.in/runs/7/activities/42';
+    testReporter.addResult(testName, 'Same Link On Every Channel', {
+        passed:
+            redo.push?.data?.url === activityUrl &&
+            redo.email?.ctaUrl === activityUrl &&
+            redo.inApp?.link === activityUrl,
+        message: `Push, email and inbox link to ${activityUrl}`,
+    });
+    testReporter.addResult(testName, 'Consistent Push Data', {
+        passed:
+            redo.push?.data?.courseActivityId === 42 &&
+            redo.push?.data?.runId === 7,
+        message: 'Redo push data uses numeric courseActivityId and runId',
+    });
+
+    const score = renderNotificationContent(
+        'score_published',
+        {
+            courseActivityId: 42,
+            runId: 7,
+            activityName: 'Quiz 1',
+            runName: 'Run A',
+        },
+        { id: 'user-1' },
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Scores Link To Grades',
+        score.email?.ctaUrl ?? '',
+        '/runs/7/grades/42',
+    );
+
+    const resetUrl = 'https://learnx.atriauniversity.in/reset?token=abc';
+    const reset = renderNotificationContent(
+        'password_reset',
+        { resetUrl, expiresInMinutes: 30 },
+        { id: 'user-1' },
+    );
+    testReporter.addResult(testName, 'Catalog Link Wins', {
+        passed: reset.email?.ctaUrl === resetUrl,
+        message: 'Password reset emails keep the reset link',
+    });
+
+    process.env.LEARNX_APP_URL = 'https://staging.learnx.example.com';
+    try {
+        expectText(
+            testReporter,
+            testName,
+            'Configurable Base URL',
+            appUrl(deepLinks.group(3)),
+            'https://staging.learnx.example.com/groups/3',
+        );
+    } finally {
+        delete process.env.LEARNX_APP_URL;
+    }
+
+    for (const baseUrl of ['https://x.org/learn', 'https://x.org/learn/']) {
+        expectText(
+            testReporter,
+            testName,
+            `Base URL Path Kept: ${baseUrl}`,
+            appUrl(deepLinks.courseRun(7), baseUrl),
+            'https://x.org/learn/runs/7',
+        );
+    }
+}
+
+/**
+ * Test: Tenant Branding
+ * Validates that emails and push notifications carry the tenant's branding,
+ * and that unusable tenant values fall back to the default
+ */
+function testTenantBranding() {
+    console.log('\n📝 Testing Tenant Branding...');
+    const testName = 'Tenant Branding';
+
+    const branding = tenantBranding({
+        name: 'Example University',
+        app_url: 'https://learn.example.edu',
+        icon_url: 'https://cdn.example.edu/icon.png',
+        logo_url: 'https://cdn.example.edu/logo.png',
+        primary_color: '#0A3D62',
+        support_email: 'help@example.edu',
+        sign_off: 'Team Example',
+        from_address: 'noreply@example.edu',
+        from_name: 'Example LearnX',
+    });
+    const content = renderNotificationContent(
+        'score_published',
+        {
+            courseActivityId: 42,
+            runId: 7,
+            activityName: 'Quiz 1',
+            runName: 'Run A',
+        },
+        { id: 'user-1' },
+        branding,
+    );
+    const gradesUrl = 'https://learn.example.edu/runs/7/grades/42';
+    testReporter.addResult(testName, 'Tenant Links', {
+        passed:
+            content.push?.data?.url === gradesUrl &&
+            content.email?.ctaUrl === gradesUrl &&
+            content.inApp?.link === gradesUrl,
+        message: `Every channel links to ${gradesUrl}`,
+    });
+    testReporter.addResult(testName, 'Tenant Push Icon', {
+        passed: content.push?.icon === 'https://cdn.example.edu/icon.png',
+        message: 'Push notifications use the tenant icon',
+    });
+
+    const html = generateEmailTemplate(content.email!);
+    for (const expected of [
+        'https://cdn.example.edu/icon.png',
+        'https://cdn.example.edu/logo.png',
+        'alt="Example University Logo"',
+        'background-color: #0A3D62',
+        'mailto:help@example.edu',
+        'Team Example',
+    ]) {
+        expectText(
+            testReporter,
+            testName,
+            `Email Layout: ${expected}`,
+            html,
+            expected,
+        );
+    }
+    testReporter.addResult(testName, 'No Default Branding Left', {
+        passed:
+            !html.includes('#625A96') &&
+            !html.includes('support@xcelerator.co.in') &&
+            !html.includes('Team Xcelerator') &&
+            !html.includes('AUFull.png'),
+        message: 'Email layout uses only the tenant branding',
+    });
+
+    const digest = renderNotificationContent(
+        'daily_digest',
+        {
+            date: '2024-12-15T10:00:00.000Z',
+            sections: [
+                {
+                    title: 'Scores',
+                    items: [{ title: 'Quiz 1', summary: markup`Scored 9` }],
+                },
+            ],
+        },
+        { id: 'user-1' },
+        branding,
+    );
+    const reset = renderNotificationContent(
+        'password_reset',
+        {
+            resetUrl: 'https://learn.example.edu/reset?token=abc',
+            expiresInMinutes: 30,
+        },
+        { id: 'user-1' },
+        branding,
+    );
+    for (const [scenario, email] of [
+        ['Digest Headings', digest.email],
+        ['Reset Link', reset.email],
+    ] as const) {
+        const body = generateEmailTemplate(email!);
+        testReporter.addResult(testName, `Tenant Colour: ${scenario}`, {
+            passed:
+                body.includes('color: #0A3D62') && !body.includes('#625A96'),
+            message: `${scenario} use the tenant's primary colour`,
+        });
+    }
+    expectText(
+        testReporter,
+        testName,
+        'Tenant Default CTA',
+        generateEmailText({
+            heading: 'Heading',
+            subheading: 'Subheading',
+            body: markup`<p>Body</p>`,
+            branding,
+        }),
+        'Go to LearnX: https://learn.example.edu/',
+    );
+
+    const defaults = defaultBranding();
+    const fallback = tenantBranding({
+        name: 'Broken University',
+        app_url: 'javascript:alert(1)',
+        logo_url: null,
+        primary_color: 'red; display: none',
+        support_email: 'not an address',
+        sign_off: '',
+    });
+    testReporter.addResult(testName, 'Invalid Values Fall Back', {
+        passed:
+            fallback.appUrl === defaults.appUrl &&
+            fallback.logoUrl === defaults.logoUrl &&
+            fallback.primaryColor === defaults.primaryColor &&
+            fallback.supportEmail === defaults.supportEmail &&
+            fallback.signOff === defaults.signOff,
+        message: 'Unsafe or missing tenant values use the default branding',
+    });
+}
+
+async function runAllTests() {
+    console.log('='.repeat(80));
+    console.log('EMAIL TEMPLATE TEST SUITE');
+    console.log('='.repeat(80));
+
+    try {
+        testMaliciousTitlesAreEscaped();
+        testSpecialCharactersAreEscaped();
+        testLayoutEscapesParams();
+        testTrustedFragments();
+        testUrlValidation();
+        testPlainTextLists();
+        testPlainTextParagraphs();
+        testPlainTextLinksAndFooter();
+        testLocalizedContent();
+        testInAppContent();
+        testDeepLinks();
+        testTenantBranding();
+
+        testReporter.printSummary();
+        process.exit(testReporter.hasFailures() ? 1 : 0);
+    } catch (error) {
+        console.error('❌ Test suite failed with error:', error);
+        process.exit(1);
+    }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runAllTests();
+}
+
+export { runAllTests };
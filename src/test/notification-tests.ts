@@ -1,3 +1,11 @@
+import type { Pool } from 'pg';
+import {
+    filterRecipients,
+    groupByEffectiveDeadline,
+    resolveEffectiveDeadlines,
+} from '../lib/deadlines';
+import { getSubmittedUserIds } from '../lib/submissions';
+import { parseDeadline } from '../lib/utils';
 import mockData from './mock-data.json';
 import {
     setupTestDatabase,
@@ -21,7 +29,9 @@ import {
  *
  * IMPORTANT: These tests replicate the exact logic from src/trigger/notify.ts
  * to validate notification behavior without requiring a real database connection.
- * The SQL queries, logic flow, and conditions match notify.ts exactly.
+ * The SQL queries, logic flow, and conditions match notify.ts exactly. Shared
+ * helpers from src/lib (deadlines, submissions) are called directly, with the
+ * mock query engine standing in for the pool.
  */
 
 // Mock query engine (replaces database)
@@ -180,6 +190,107 @@ async function testStudentDeadlineNotification() {
     }
 }
 
+/**
+ * Test: Student Deadline Reminder Skips Submitted Students
+ * Validates that reminders from the deadline ladder only go to students who have not submitted yet
+ */
+async function testStudentDeadlineReminderSkipsSubmitted() {
+    console.log('\n📝 Testing Student Deadline Reminder Skips Submitted...');
+    const scenario =
+        mockData.test_scenarios.student_deadline_reminder_skips_submitted;
+    const testName = 'Student Deadline Reminder Skips Submitted';
+
+    mockNotificationService.reset();
+
+    const { courseActivityId, runId, deadline } = scenario.test_payload;
+
+    const activityRes = await mockQueryEngine.query(
+        `SELECT a.id as activity_id, a.type, a.payload, ca.order, c.id as course_id, c.name as course_name
+     FROM activities a
+     JOIN "course-activities" ca ON ca.activity_id = a.id
+     JOIN courses c ON ca.course_id = c.id
+     WHERE ca.id = $1`,
+        [courseActivityId],
+    );
+    const activity = activityRes.rows[0];
+
+    if (!activity) {
+        testReporter.addResult(testName, 'Activity Lookup', {
+            passed: false,
+            message: 'Activity not found',
+        });
+        return;
+    }
+
+    const activityName = JSON.parse(activity.payload).title;
+
+    const runRes = await mockQueryEngine.query(
+        `SELECT group_id, name FROM "course-runs" WHERE id = $1`,
+        [runId],
+    );
+    const groupId = runRes.rows[0]?.group_id;
+    const runName = runRes.rows[0]?.name;
+
+    const studentsRes = await mockQueryEngine.query(
+        `SELECT u.id, u.name FROM "group-members" gm
+     JOIN users u ON gm.user_id = u.id
+     WHERE gm.group_id = $1 AND gm.role = 'student'`,
+        [groupId],
+    );
+
+    const submittedIds = await getSubmittedUserIds(
+        mockQueryEngine as unknown as Pool,
+        activity.type,
+        activity.activity_id,
+        runId,
+    );
+    const studentsToRemind = filterRecipients(studentsRes.rows, {}).filter(
+        (s: any) => !submittedIds.includes(s.id),
+    );
+
+    for (const student of studentsToRemind) {
+        await mockNotificationService.sendPushNotification(student.id, {
+            title: `Assignment "${activityName}" is due soon in "${runName}"`,
+            body: `Hi ${student.name}, your assignment "${activityName}" for "${runName}" is due at ${deadline}. Please make sure to submit before the deadline!`,
+            data: { courseActivityId, deadline },
+        });
+
+        await mockNotificationService.sendEmailNotification(
+            student.id,
+            'Upcoming Activity Deadline',
+            'Your Activity is Due Soon',
+            'Submit before the deadline to stay on track.',
+            `Your activity ${activityName} for ${runName} is due on ${deadline}.`,
+        );
+    }
+
+    const pushResult = testAssertions.assertRecipientsMatch(
+        scenario.expected_recipients,
+        scenario.not_expected,
+        'push',
+    );
+    testReporter.addResult(
+        testName,
+        'Push Notification Skips Submitted Students',
+        pushResult,
+    );
+
+    const emailResult = testAssertions.assertRecipientsMatch(
+        scenario.expected_recipients,
+        scenario.not_expected,
+        'email',
+    );
+    testReporter.addResult(
+        testName,
+        'Email Notification Skips Submitted Students',
+        emailResult,
+    );
+
+    console.log(
+        `  ✅ Reminders sent to ${studentsToRemind.length} student(s) who have not submitted`,
+    );
+}
+
 /**
  * Test: Manager Deadline Warning
  * Validates that course managers receive deadline warnings
@@ -800,6 +911,123 @@ async function testMissedDeadlineNotification() {
     }
 }
 
+/**
+ * Test: Missed Deadline Respects Student Override
+ * Validates that missed-deadline notices are scheduled per effective deadline,
+ * so students with an extension aren't told they missed the run deadline
+ */
+async function testMissedDeadlineRespectsStudentOverride() {
+    console.log('\n📝 Testing Missed Deadline Respects Student Override...');
+    const scenario =
+        mockData.test_scenarios.missed_deadline_respects_student_override;
+    const testName = 'Missed Deadline Respects Student Override';
+
+    mockNotificationService.reset();
+
+    const { courseActivityId, runId, deadline } = scenario.test_payload;
+
+    const pool = mockQueryEngine as unknown as Pool;
+    const effective = await resolveEffectiveDeadlines(
+        pool,
+        courseActivityId,
+        runId,
+        parseDeadline(deadline),
+    );
+    const runDeadline = effective.runDeadline;
+
+    testReporter.addResult(testName, 'Run Override Deadline', {
+        passed:
+            runDeadline.getTime() ===
+            new Date(scenario.expected_run_deadline).getTime(),
+        message: `Run deadline resolved to ${runDeadline.toISOString()}`,
+    });
+
+    // One group for the run deadline, one per distinct student deadline
+    const groups = groupByEffectiveDeadline(effective);
+
+    const res = await mockQueryEngine.query(
+        `SELECT a.id as activity_id, a.type, a.payload, 
+            ca.id as course_activity_id, 
+            c.id as course_id, c.name as course_name, 
+            cr.name as run_name, cr.group_id,
+            g.name as group_name
+     FROM activities a
+     JOIN "course-activities" ca ON ca.activity_id = a.id
+     JOIN courses c ON ca.course_id = c.id
+     JOIN "course-runs" cr ON cr.id = $2
+     JOIN groups g ON cr.group_id = g.id
+     WHERE ca.id = $1`,
+        [courseActivityId, runId],
+    );
+    const row = res.rows[0];
+    const activityName = JSON.parse(row.payload).title;
+
+    const studentsRes = await mockQueryEngine.query(
+        `SELECT u.id, u.name FROM "group-members" gm
+     JOIN users u ON gm.user_id = u.id
+     WHERE gm.group_id = $1 AND gm.role = 'student'`,
+        [row.group_id],
+    );
+
+    // Activity 1 is a quiz
+    const submittedIds = await getSubmittedUserIds(
+        pool,
+        row.type,
+        row.activity_id,
+        runId,
+    );
+
+    // Each group's notifyMissedDeadline run
+    for (const group of groups) {
+        const studentsToNotify = filterRecipients(
+            studentsRes.rows,
+            group,
+        ).filter((s: any) => !submittedIds.includes(s.id));
+        for (const student of studentsToNotify) {
+            await mockNotificationService.sendPushNotification(student.id, {
+                title: `Missed Deadline: ${activityName}`,
+                body: `Hi ${student.name}, you missed the deadline for "${activityName}" in "${row.run_name}". Please check with your facilitator for next steps.`,
+                data: {
+                    courseActivityId,
+                    runId,
+                    deadline: group.deadline.toISOString(),
+                },
+            });
+        }
+    }
+
+    const pushResult = testAssertions.assertRecipientsMatch(
+        scenario.expected_recipients,
+        scenario.not_expected,
+        'push',
+    );
+    testReporter.addResult(
+        testName,
+        'Push Notification Recipients',
+        pushResult,
+    );
+
+    const countResult = testAssertions.assertNotificationCount(
+        'user-student-3',
+        1,
+        'push',
+    );
+    testReporter.addResult(
+        testName,
+        'Student With Extension Notified Once',
+        countResult,
+    );
+
+    const notice =
+        mockNotificationService.getPushNotificationsFor('user-student-3')[0];
+    testReporter.addResult(testName, 'Notified At Extended Deadline', {
+        passed:
+            notice?.data?.deadline ===
+            new Date(scenario.expected_student_deadline).toISOString(),
+        message: `user-student-3 notified for deadline ${notice?.data?.deadline}`,
+    });
+}
+
 /**
  * Test: Group Isolation - Student Deadline Notification
  * Critical test to ensure students from different groups don't receive each other's notifications
@@ -1611,6 +1839,7 @@ async function runAllTests() {
 
         // Run all tests
         await testStudentDeadlineNotification();
+        await testStudentDeadlineReminderSkipsSubmitted();
         await testManagerDeadlineWarning();
         await testScorePublishedNotification();
         await testActivityPostedNotification();
@@ -1618,6 +1847,7 @@ async function runAllTests() {
         await testAddedToGroupNotification();
         await testNewDocumentNotification();
         await testMissedDeadlineNotification();
+        await testMissedDeadlineRespectsStudentOverride();
 
         // === CRITICAL ISOLATION TESTS ===
         console.log('\n' + '='.repeat(80));
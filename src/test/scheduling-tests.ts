@@ -0,0 +1,355 @@
+import { isDeadlineJobFor } from '../lib/deadlines';
+import { Pool } from 'pg';
+import { DigestQueue, isDigestDue } from '../lib/digest';
+import { generateEmailText } from '../lib/email-template';
+import { renderNotificationContent } from '../lib/notification-content';
+import {
+    holdForQuietHours,
+    institutionQuietHours,
+    isQuietTime,
+    parseTimeOfDay,
+    QUIET_HOURS_EXEMPT_KINDS,
+    quietHoursEnd,
+} from '../lib/quiet-hours';
+import { UserNotificationSettings } from '../lib/user-settings';
+import { formatDateTime, parseDeadline } from '../lib/utils';
+import { expectText, expectThrows, TestReporter } from './test-utils';
+
+/**
+ * Scheduling Test Suite
+ *
+ * Validates when notifications go out:
+ * 1. Dates render in the recipient's timezone
+ * 2. Per-user or institution quiet hours hold non-urgent push
+ * 3. The daily digest is due once a day in every timezone, and only due
+ *    users' items are loaded
+ * 4. Moving a deadline cancels exactly the jobs that depend on it
+ *
+ * Scheduling rules are pure functions - NO DATABASE REQUIRED
+ */
+
+const testReporter = new TestReporter();
+
+/**
+ * Test: Time Zones And Quiet Hours
+ * Validates per-recipient date rendering and holding reminders overnight
+ */
+function testTimeZones() {
+    console.log('\n📝 Testing Time Zones...');
+    const testName = 'Time Zones';
+    const deadline = new Date('2024-12-15T18:29:59Z');
+
+    const inputs = {
+        courseActivityId: 1,
+        runId: 2,
+        activityName: 'Quiz 1',
+        runName: 'Run A',
+        deadline: deadline.toISOString(),
+    };
+    expectText(
+        testReporter,
+        testName,
+        'Defaults To IST',
+        renderNotificationContent('student_deadline', inputs, { id: 'u1' }).push
+            ?.body ?? '',
+        'due at 2024-12-15 11:59:59 PM IST',
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Recipient Time Zone',
+        generateEmailText(
+            renderNotificationContent('student_deadline', inputs, {
+                id: 'u2',
+                timeZone: 'America/New_York',
+            }).email!,
+        ),
+        'is due on 2024-12-15 01:29:59 PM EST.',
+    );
+    expectText(
+        testReporter,
+        testName,
+        'Offset When No Abbreviation',
+        formatDateTime(deadline, 'Asia/Singapore'),
+        '2024-12-16 02:29:59 AM GMT+8',
+    );
+
+    const legacy = parseDeadline('2024-12-15 11:59:59 PM');
+    testReporter.addResult(testName, 'Legacy IST Payloads', {
+        passed: legacy.getTime() === deadline.getTime(),
+        message: `Parsed as ${legacy.toISOString()}`,
+    });
+
+    const settings = (timeZone: string): UserNotificationSettings => ({
+        emailDigest: false,
+        locale: 'en',
+        timeZone,
+        quietHours: institutionQuietHours(),
+        phoneNumber: null,
+        whatsAppOptIn: false,
+    });
+    // 23:30 IST is 13:00 in New York and 05:00 in Sydney.
+    const now = new Date('2024-12-15T18:00:00Z');
+    const students = [{ id: 'ist' }, { id: 'ny' }, { id: 'syd' }];
+    const userSettings = new Map([
+        ['ist', settings('Asia/Kolkata')],
+        ['ny', settings('America/New_York')],
+        ['syd', settings('Australia/Sydney')],
+    ]);
+
+    const held = holdForQuietHours(
+        students,
+        userSettings,
+        now,
+        new Date('2024-12-17T00:00:00Z'),
+    );
+    testReporter.addResult(testName, 'Quiet Hours Held', {
+        passed:
+            held.sendNow.map((s) => s.id).join() === 'ny' &&
+            held.deferred.length === 2 &&
+            held.deferred.some(
+                (d) =>
+                    d.userIds.join() === 'ist' &&
+                    d.sendAt.toISOString() === '2024-12-16T01:30:00.000Z',
+            ),
+        message: 'Only the New York student is reminded now',
+        details: held,
+    });
+
+    const closeDeadline = holdForQuietHours(
+        students,
+        userSettings,
+        now,
+        new Date('2024-12-15T19:00:00Z'),
+    );
+    testReporter.addResult(testName, 'Deadline Before Quiet Hours End', {
+        passed: closeDeadline.sendNow.length === 3,
+        message: 'Everyone is reminded before the deadline passes',
+    });
+}
+
+/**
+ * Test: Push Quiet Hours
+ * Validates configurable quiet hours and which kinds bypass them
+ */
+function testPushQuietHours() {
+    console.log('\n📝 Testing Push Quiet Hours...');
+    const testName = 'Push Quiet Hours';
+
+    const institution = institutionQuietHours();
+    testReporter.addResult(testName, 'Institution Default', {
+        passed:
+            institution.startMinute === 22 * 60 &&
+            institution.endMinute === 7 * 60,
+        message: 'Defaults to 22:00 - 07:00',
+    });
+    testReporter.addResult(testName, 'Parse Postgres TIME', {
+        passed: parseTimeOfDay('07:30:00') === 7 * 60 + 30,
+        message: '07:30:00 is 450 minutes after midnight',
+    });
+    expectThrows(testReporter, testName, 'Invalid Time Of Day', () =>
+        parseTimeOfDay('25:00'),
+    );
+
+    // 02:00 IST
+    const lateNight = new Date('2024-12-15T20:30:00Z');
+    const earlyBird = { startMinute: 0, endMinute: 5 * 60 };
+    testReporter.addResult(testName, 'Overnight Window', {
+        passed: isQuietTime(lateNight, 'Asia/Kolkata', institution),
+        message: '02:00 is inside 22:00 - 07:00',
+    });
+    testReporter.addResult(testName, 'User Window', {
+        passed:
+            isQuietTime(lateNight, 'Asia/Kolkata', earlyBird) &&
+            quietHoursEnd(
+                lateNight,
+                'Asia/Kolkata',
+                earlyBird,
+            ).toISOString() === '2024-12-15T23:30:00.000Z',
+        message: 'A 00:00 - 05:00 window ends at 05:00 IST',
+    });
+    testReporter.addResult(testName, 'Disabled When Start Equals End', {
+        passed: !isQuietTime(lateNight, 'Asia/Kolkata', {
+            startMinute: 0,
+            endMinute: 0,
+        }),
+        message: 'No quiet hours',
+    });
+    testReporter.addResult(testName, 'Time-Critical Kinds Bypass', {
+        passed:
+            QUIET_HOURS_EXEMPT_KINDS.includes('manager_warning') &&
+            QUIET_HOURS_EXEMPT_KINDS.includes('password_reset') &&
+            !QUIET_HOURS_EXEMPT_KINDS.includes('score_published'),
+        message: 'Manager warnings and password resets are never deferred',
+    });
+}
+
+/**
+ * Test: Digest Schedule
+ * Validates that exactly one half-hourly digest run a day is due for every
+ * timezone, including those offset by 30 or 45 minutes
+ */
+function testDigestSchedule() {
+    console.log('\n📝 Testing Digest Schedule...');
+    const testName = 'Digest Schedule';
+
+    const day = Date.parse('2024-12-15T00:00:00.000Z');
+    const runs = Array.from(
+        { length: 48 },
+        (_, index) => new Date(day + index * 30 * 60 * 1000),
+    );
+    for (const timeZone of [
+        'Asia/Kolkata',
+        'Asia/Kathmandu',
+        'Australia/Eucla',
+        'America/New_York',
+        'UTC',
+    ]) {
+        const due = runs.filter((at) => isDigestDue(at, timeZone));
+        testReporter.addResult(testName, `Once A Day: ${timeZone}`, {
+            passed: due.length === 1,
+            message: `Due at ${due.map((at) => at.toISOString()).join(', ')}`,
+        });
+    }
+
+    testReporter.addResult(testName, 'Local Evening', {
+        passed:
+            isDigestDue(new Date('2024-12-15T13:30:00.000Z'), 'Asia/Kolkata') &&
+            !isDigestDue(new Date('2024-12-15T14:00:00.000Z'), 'Asia/Kolkata'),
+        message: 'Sent in the first half of 19:00 local time',
+    });
+}
+
+/**
+ * Test: Due Digests
+ * Validates that a digest run loads queued items only for the users whose
+ * digest is due, as picked by the database
+ */
+async function testDueDigests() {
+    console.log('\n📝 Testing Due Digests...');
+    const testName = 'Due Digests';
+
+    const loadedFor: unknown[] = [];
+    const fakePool = (dueUserIds: string[]) =>
+        ({
+            query: async (sql: string, params: any[]) => {
+                if (sql.includes('pg_timezone_names')) {
+                    return {
+                        rows: dueUserIds.map((user_id) => ({ user_id })),
+                    };
+                }
+                if (sql.includes('FROM notification_digest_queue')) {
+                    loadedFor.push(params[1]);
+                    return {
+                        rows: (params[1] as string[]).map((user_id, id) => ({
+                            id,
+                            user_id,
+                            course_run_id: null,
+                            title: 'Score published',
+                            summary: '<p>Quiz 1</p>',
+                        })),
+                    };
+                }
+                return { rows: [] };
+            },
+        }) as unknown as Pool;
+
+    const at = new Date('2024-12-15T13:30:00.000Z');
+    const due = await new DigestQueue(fakePool(['user-1'])).findDue(at);
+    testReporter.addResult(testName, 'Only Due Users Loaded', {
+        passed:
+            loadedFor.length === 1 &&
+            JSON.stringify(loadedFor[0]) === '["user-1"]' &&
+            due.length === 1 &&
+            due[0].userId === 'user-1' &&
+            due[0].timeZone === 'Asia/Kolkata',
+        message:
+            "Items are loaded for due users only, with each user's timezone",
+        details: loadedFor,
+    });
+
+    loadedFor.length = 0;
+    const none = await new DigestQueue(fakePool([])).findDue(at);
+    testReporter.addResult(testName, 'Nobody Due', {
+        passed: none.length === 0 && loadedFor.length === 0,
+        message: 'No items are loaded when no digest is due',
+    });
+}
+
+/**
+ * Test: Rescheduled Deadline Jobs
+ * Validates which delayed runs are cancelled when an activity's deadline
+ * moves in a course run
+ */
+function testRescheduledDeadlineJobs() {
+    console.log('\n📝 Testing Rescheduled Deadline Jobs...');
+    const testName = 'Rescheduled Deadline Jobs';
+
+    const cases: [string, string[], boolean][] = [
+        ['Reminder', ['activity_42', 'run_7', 'student_deadline'], true],
+        ['Auto Submit', ['run_7', 'activity_42', 'auto_submit'], true],
+        [
+            'Extension Auto Submit',
+            ['run_7', 'activity_42', 'user_u1', 'auto_submit_override'],
+            true,
+        ],
+        [
+            'Redo Auto Submit',
+            ['run_7', 'activity_42', 'user_u1', 'auto_submit_redo'],
+            false,
+        ],
+        [
+            'Deferred Push',
+            [
+                'user_u1',
+                'missed_deadline',
+                'deferred_push',
+                'activity_42',
+                'run_7',
+            ],
+            true,
+        ],
+        ['Other Run', ['activity_42', 'run_8', 'student_deadline'], false],
+        ['Other Activity', ['activity_43', 'run_7', 'manager_warning'], false],
+        ['Not Deadline Bound', ['activity_42', 'run_7', 'redo_enabled'], false],
+        [
+            'Run Tag Prefix',
+            ['activity_42', 'run_70', 'student_deadline'],
+            false,
+        ],
+    ];
+    for (const [scenario, tags, expected] of cases) {
+        testReporter.addResult(testName, scenario, {
+            passed: isDeadlineJobFor(tags, 42, 7) === expected,
+            message: expected ? 'Cancelled' : 'Left alone',
+            details: tags,
+        });
+    }
+}
+
+async function runAllTests() {
+    console.log('='.repeat(80));
+    console.log('SCHEDULING TEST SUITE');
+    console.log('='.repeat(80));
+
+    try {
+        testTimeZones();
+        testPushQuietHours();
+        testDigestSchedule();
+        await testDueDigests();
+        testRescheduledDeadlineJobs();
+
+        testReporter.printSummary();
+        process.exit(testReporter.hasFailures() ? 1 : 0);
+    } catch (error) {
+        console.error('❌ Test suite failed with error:', error);
+        process.exit(1);
+    }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runAllTests();
+}
+
+export { runAllTests };
@@ -296,6 +296,31 @@ export class MockQueryEngine {
             };
         }
 
+        // Get run-level activity override
+        if (sqlLower.includes('from run_activity_overrides')) {
+            const runId = params[0];
+            const courseActivityId = params[1];
+            const overrides = this.data.run_activity_overrides.filter(
+                (o: any) =>
+                    o.course_run_id === runId &&
+                    o.course_activity_id === courseActivityId,
+            );
+            return { rows: overrides };
+        }
+
+        // Get per-student deadline overrides
+        if (sqlLower.includes('from student_run_activity_overrides')) {
+            const runId = params[0];
+            const courseActivityId = params[1];
+            const overrides = this.data.student_run_activity_overrides.filter(
+                (o: any) =>
+                    o.course_run_id === runId &&
+                    o.course_activity_id === courseActivityId &&
+                    o.new_deadline,
+            );
+            return { rows: overrides };
+        }
+
         // Get assignment submissions
         if (
             sqlLower.includes('from assignment_submissions') &&
@@ -319,11 +344,12 @@ export class MockQueryEngine {
         ) {
             const activityId = params[0];
             const runId = params[1];
+            const completedOnly = sqlLower.includes('completed_at is not null');
             const attempts = this.data.quiz_attempts.filter(
                 (a: any) =>
                     a.activity_id === activityId &&
                     a.course_run_id === runId &&
-                    a.completed_at,
+                    (!completedOnly || a.completed_at),
             );
             return { rows: attempts.map((a: any) => ({ user_id: a.user_id })) };
         }
@@ -628,3 +654,47 @@ export class TestReporter {
         return this.results.some((r) => !r.passed);
     }
 }
+
+/**
+ * Record whether rendered output contains the expected text.
+ */
+export function expectText(
+    reporter: TestReporter,
+    testName: string,
+    scenario: string,
+    text: string,
+    expected: string,
+) {
+    const passed = text.includes(expected);
+    reporter.addResult(testName, scenario, {
+        passed,
+        message: passed
+            ? `Contains ${JSON.stringify(expected)}`
+            : `Missing ${JSON.stringify(expected)}`,
+        details: passed ? undefined : { text },
+    });
+}
+
+/**
+ * Record whether rendering threw, as it should for rejected input.
+ */
+export function expectThrows(
+    reporter: TestReporter,
+    testName: string,
+    scenario: string,
+    render: () => unknown,
+) {
+    let error: unknown;
+    try {
+        render();
+    } catch (e) {
+        error = e;
+    }
+    reporter.addResult(testName, scenario, {
+        passed: error instanceof Error,
+        message:
+            error instanceof Error
+                ? `Rejected: ${error.message}`
+                : 'Expected an error but the template rendered',
+    });
+}
@@ -1,14 +1,28 @@
-import { task } from '@trigger.dev/sdk/v3';
+import { schemaTask } from '@trigger.dev/sdk/v3';
+import { z } from 'zod';
 import pool from '../lib/db';
-import { convertUTCToISTString } from '../lib/utils';
+import { resolveEffectiveDeadlines } from '../lib/deadlines';
+import {
+    activityDeadlineSchema,
+    idSchema,
+    recipientFilterSchema,
+    userIdSchema,
+} from '../lib/schemas';
+import { formatDateTime, parseDeadline } from '../lib/utils';
 
-export const scheduleAutoSubmitUnsubmittedActivities = task({
+// Payload of the delayed auto-submit runs. The deadline is the formatted IST
+// time, kept for the run's logs.
+const autoSubmitSchema = z.object({
+    activityId: idSchema,
+    activityType: z.string().min(1),
+    runId: idSchema,
+    deadline: z.string(),
+});
+
+export const scheduleAutoSubmitUnsubmittedActivities = schemaTask({
     id: 'schedule-auto-submit-unsubmitted-activities',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: activityDeadlineSchema,
+    run: async (payload) => {
         // Get activity type
         const activityRes = await pool.query(
             `SELECT a.id as activity_id, a.type FROM "course-activities" ca
@@ -33,20 +47,35 @@ export const scheduleAutoSubmitUnsubmittedActivities = task({
             return;
         }
 
-        const formattedDeadlineIST = convertUTCToISTString(
-            new Date(payload.deadline),
+        const effective = await resolveEffectiveDeadlines(
+            pool,
+            payload.courseActivityId,
+            payload.runId,
+            parseDeadline(payload.deadline),
         );
+        if (effective.isDisabled) {
+            console.log(
+                `Skipping auto-submit scheduling for disabled courseActivityId: ${payload.courseActivityId}, runId: ${payload.runId}`,
+            );
+            return;
+        }
 
-        // Schedule the auto-submit task to run at the deadline
+        const runDeadline = effective.runDeadline;
+        const formattedDeadlineIST = formatDateTime(runDeadline);
+        const excludeUserIds = Array.from(effective.studentDeadlines.keys());
+
+        // Schedule the auto-submit task to run at the deadline, leaving out
+        // students with an extension
         await autoSubmitUnsubmittedActivities.trigger(
             {
                 activityId: activityId,
                 activityType: activityType,
                 runId: payload.runId,
                 deadline: formattedDeadlineIST,
+                excludeUserIds,
             },
             {
-                delay: payload.deadline,
+                delay: runDeadline.toISOString(),
                 tags: [
                     `run_${payload.runId}`,
                     `activity_${payload.courseActivityId}`,
@@ -56,24 +85,56 @@ export const scheduleAutoSubmitUnsubmittedActivities = task({
                     runId: payload.runId,
                     courseActivityId: payload.courseActivityId,
                     activityType: activityType,
-                    deadline: payload.deadline,
+                    deadline: runDeadline.toISOString(),
                     formattedDeadlineIST: formattedDeadlineIST,
                     type: 'auto_submit_unsubmitted',
                 },
             },
         );
+
+        // Students with an extension are auto-submitted individually at
+        // their own deadline
+        for (const [userId, deadline] of effective.studentDeadlines) {
+            const formattedStudentDeadlineIST = formatDateTime(deadline);
+            await autoSubmitStudentRedo.trigger(
+                {
+                    userId,
+                    activityId: activityId,
+                    activityType: activityType,
+                    runId: payload.runId,
+                    deadline: formattedStudentDeadlineIST,
+                },
+                {
+                    delay: deadline.toISOString(),
+                    tags: [
+                        `run_${payload.runId}`,
+                        `activity_${payload.courseActivityId}`,
+                        `user_${userId}`,
+                        'auto_submit_override',
+                    ],
+                    metadata: {
+                        userId,
+                        runId: payload.runId,
+                        courseActivityId: payload.courseActivityId,
+                        activityType: activityType,
+                        deadline: deadline.toISOString(),
+                        formattedDeadlineIST: formattedStudentDeadlineIST,
+                        type: 'auto_submit_student_redo',
+                    },
+                },
+            );
+        }
     },
 });
 
-export const autoSubmitUnsubmittedActivities = task({
+export const autoSubmitUnsubmittedActivities = schemaTask({
     id: 'auto-submit-unsubmitted-activities',
-    run: async (payload: {
-        activityId: number;
-        activityType: string;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: autoSubmitSchema.extend({
+        excludeUserIds: recipientFilterSchema.shape.excludeUserIds,
+    }),
+    run: async (payload) => {
         const { activityId, activityType, runId } = payload;
+        const excludeUserIds = payload.excludeUserIds ?? [];
         const now = new Date();
 
         if (activityType === 'quiz') {
@@ -84,8 +145,9 @@ export const autoSubmitUnsubmittedActivities = task({
          WHERE activity_id = $2
          AND course_run_id = $3
          AND completed_at IS NULL
+         AND NOT (user_id = ANY($4))
          RETURNING id, user_id`,
-                [now, activityId, runId],
+                [now, activityId, runId, excludeUserIds],
             );
 
             return {
@@ -102,8 +164,9 @@ export const autoSubmitUnsubmittedActivities = task({
          WHERE activity_id = $2
          AND course_run_id = $3
          AND submitted_at IS NULL
+         AND NOT (user_id = ANY($4))
          RETURNING id, user_id`,
-                [now, activityId, runId],
+                [now, activityId, runId, excludeUserIds],
             );
 
             return {
@@ -124,14 +187,10 @@ export const autoSubmitUnsubmittedActivities = task({
     },
 });
 
-export const scheduleAutoSubmitStudentRedo = task({
+export const scheduleAutoSubmitStudentRedo = schemaTask({
     id: 'schedule-auto-submit-student-redo',
-    run: async (payload: {
-        userId: string;
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: activityDeadlineSchema.extend({ userId: userIdSchema }),
+    run: async (payload) => {
         const activityRes = await pool.query(
             `SELECT a.id as activity_id, a.type FROM "course-activities" ca
        JOIN activities a ON a.id = ca.activity_id
@@ -155,9 +214,8 @@ export const scheduleAutoSubmitStudentRedo = task({
             return;
         }
 
-        const formattedDeadlineIST = convertUTCToISTString(
-            new Date(payload.deadline),
-        );
+        const deadline = parseDeadline(payload.deadline);
+        const formattedDeadlineIST = formatDateTime(deadline);
 
         await autoSubmitStudentRedo.trigger(
             {
@@ -168,7 +226,7 @@ export const scheduleAutoSubmitStudentRedo = task({
                 deadline: formattedDeadlineIST,
             },
             {
-                delay: payload.deadline,
+                delay: deadline.toISOString(),
                 tags: [
                     `run_${payload.runId}`,
                     `activity_${payload.courseActivityId}`,
@@ -180,7 +238,7 @@ export const scheduleAutoSubmitStudentRedo = task({
                     runId: payload.runId,
                     courseActivityId: payload.courseActivityId,
                     activityType: activityType,
-                    deadline: payload.deadline,
+                    deadline: deadline.toISOString(),
                     formattedDeadlineIST: formattedDeadlineIST,
                     type: 'auto_submit_student_redo',
                 },
@@ -189,15 +247,10 @@ export const scheduleAutoSubmitStudentRedo = task({
     },
 });
 
-export const autoSubmitStudentRedo = task({
+export const autoSubmitStudentRedo = schemaTask({
     id: 'auto-submit-student-redo',
-    run: async (payload: {
-        userId: string;
-        activityId: number;
-        activityType: string;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: autoSubmitSchema.extend({ userId: userIdSchema }),
+    run: async (payload) => {
         const { userId, activityId, activityType, runId } = payload;
         const now = new Date();
 
@@ -0,0 +1,150 @@
+import { schemaTask } from '@trigger.dev/sdk/v3';
+import { z } from 'zod';
+import pool from '../lib/db';
+import {
+    DeadLetterContent,
+    DeadLetterRecord,
+    DeadLetters,
+} from '../lib/dead-letters';
+import { DeliveryStatus } from '../lib/delivery-log';
+import { NotificationContext } from '../lib/notification-types';
+import { NotificationService } from '../lib/notify-service';
+import { withRetries } from '../lib/retry';
+import {
+    idSchema,
+    notificationChannelSchema,
+    notificationKindSchema,
+    timestampSchema,
+    userIdSchema,
+} from '../lib/schemas';
+import { positiveIntFromEnv, Throttle } from '../lib/throttle';
+
+interface ReplayResult {
+    id: number;
+    userId: string;
+    channel: DeadLetterRecord['channel'];
+    status: DeliveryStatus;
+    error?: string;
+}
+
+function resend(
+    notificationService: NotificationService,
+    userId: string,
+    content: DeadLetterContent,
+    context: NotificationContext,
+): Promise<DeliveryStatus> {
+    switch (content.channel) {
+        case 'push':
+            return notificationService.sendPushNotification(
+                userId,
+                content.push,
+                context,
+            );
+        case 'email':
+            return notificationService.sendEmailNotification(
+                userId,
+                content.email,
+                context,
+            );
+        case 'in_app':
+            return notificationService.sendInAppNotification(
+                userId,
+                content.inApp,
+                context,
+            );
+        case 'sms':
+        case 'whatsapp':
+            return notificationService.sendTextNotification(
+                userId,
+                content.channel,
+                content.text,
+                context,
+            );
+    }
+}
+
+// Support recovery: after a provider outage, trigger from the dashboard to
+// resend what failed, e.g. every student_deadline email from the last
+// three hours, without re-running the original task for everyone else.
+// Letters whose notification has since gone out are logged as duplicates
+// and not sent twice. Use dryRun to see what would be replayed.
+export const replayDeadLetters = schemaTask({
+    id: 'replay-dead-letters',
+    schema: z.object({
+        kind: notificationKindSchema.optional(),
+        channel: notificationChannelSchema.optional(),
+        userId: userIdSchema.optional(),
+        // Course run of the notification.
+        runId: idSchema.optional(),
+        // Trigger.dev run that originally tried to send it.
+        taskRunId: z.string().min(1).optional(),
+        from: timestampSchema.optional(),
+        to: timestampSchema.optional(),
+        limit: z.number().int().positive().optional(),
+        dryRun: z.boolean().optional(),
+    }),
+    run: async (payload, { ctx }) => {
+        const deadLetters = new DeadLetters(pool);
+        const letters = await deadLetters.find({
+            ...payload,
+            from: payload.from ? new Date(payload.from) : undefined,
+            to: payload.to ? new Date(payload.to) : undefined,
+        });
+
+        if (payload.dryRun) {
+            return { count: letters.length, letters };
+        }
+
+        const notificationService = new NotificationService(pool);
+        const throttle = new Throttle({
+            concurrency: positiveIntFromEnv('NOTIFICATION_CONCURRENCY', 20),
+        });
+        const results = await Promise.all(
+            letters.map((letter) =>
+                throttle.run(async (): Promise<ReplayResult> => {
+                    const summary = {
+                        id: letter.id,
+                        userId: letter.userId,
+                        channel: letter.channel,
+                    };
+                    const { content } = letter;
+                    if (!content) {
+                        return {
+                            ...summary,
+                            status: 'skipped',
+                            error: 'No stored content to replay',
+                        };
+                    }
+
+                    const result = await withRetries(() =>
+                        resend(notificationService, letter.userId, content, {
+                            ...letter.context,
+                            taskRunId: ctx.run.id,
+                        }),
+                    );
+                    if (result.ok) {
+                        await deadLetters.markReplayed(letter.id);
+                        return { ...summary, status: result.value };
+                    }
+
+                    const error =
+                        result.error instanceof Error
+                            ? result.error.message
+                            : String(result.error);
+                    console.error(
+                        `Failed to replay dead letter ${letter.id} (${letter.channel}, ${letter.kind}) to userId: ${letter.userId}`,
+                        result.error,
+                    );
+                    await deadLetters.recordReplayFailure(letter.id, error);
+                    return { ...summary, status: 'failed', error };
+                }),
+            ),
+        );
+
+        const totals: Partial<Record<DeliveryStatus, number>> = {};
+        for (const result of results) {
+            totals[result.status] = (totals[result.status] ?? 0) + 1;
+        }
+        return { count: results.length, totals, results };
+    },
+});
@@ -0,0 +1,88 @@
+import { runs, schemaTask } from '@trigger.dev/sdk/v3';
+import { isDeadlineJobFor } from '../lib/deadlines';
+import { activityDeadlineSchema, deadlineSchema } from '../lib/schemas';
+import { scheduleAutoSubmitUnsubmittedActivities } from './activity';
+import {
+    scheduleManagerDeadlineWarning,
+    scheduleNotifyFacilitatorPostDeadlineSummary,
+    scheduleNotifyMissedDeadline,
+    scheduleStudentDeadlineNotification,
+} from './notify';
+
+async function findDelayedDeadlineRuns(
+    courseActivityId: number,
+    runId: number,
+): Promise<{ id: string; tags: string[] }[]> {
+    const delayedRuns: { id: string; tags: string[] }[] = [];
+    for await (const run of runs.list({
+        tag: `activity_${courseActivityId}`,
+        status: 'DELAYED',
+    })) {
+        if (isDeadlineJobFor(run.tags, courseActivityId, runId)) {
+            delayedRuns.push({ id: run.id, tags: run.tags });
+        }
+    }
+    return delayedRuns;
+}
+
+/**
+ * Call when a facilitator moves an activity deadline (pass the new deadline)
+ * or deletes the activity (pass deadline: null). Cancels every delayed run
+ * scheduled for the old deadline, then schedules them again for the new one.
+ *
+ * Stale runs are cancelled before anything is rescheduled so an old
+ * auto-submit can never fire. If rescheduling fails the task throws and is
+ * retried; each attempt cancels whatever is still delayed (including runs a
+ * failed attempt already created) and schedules the full set again, so
+ * retries converge on exactly one set of jobs for the new deadline.
+ */
+export const rescheduleActivityDeadline = schemaTask({
+    id: 'reschedule-activity-deadline',
+    schema: activityDeadlineSchema.extend({
+        deadline: deadlineSchema.nullable(),
+    }),
+    run: async (payload) => {
+        const { courseActivityId, runId, deadline } = payload;
+
+        const staleRuns = await findDelayedDeadlineRuns(
+            courseActivityId,
+            runId,
+        );
+        for (const staleRun of staleRuns) {
+            await runs.cancel(staleRun.id);
+        }
+        console.log(
+            `Cancelled ${staleRuns.length} delayed run(s) for courseActivityId: ${courseActivityId}, runId: ${runId}`,
+        );
+
+        if (!deadline) {
+            return {
+                cancelledRunIds: staleRuns.map((r) => r.id),
+                rescheduled: [],
+            };
+        }
+
+        const schedulePayload = { courseActivityId, runId, deadline };
+        // triggerAndWait calls can't run in parallel inside a task.
+        const schedulers = [
+            scheduleStudentDeadlineNotification,
+            scheduleManagerDeadlineWarning,
+            scheduleNotifyMissedDeadline,
+            scheduleNotifyFacilitatorPostDeadlineSummary,
+            scheduleAutoSubmitUnsubmittedActivities,
+        ];
+        for (const scheduler of schedulers) {
+            const result = await scheduler.triggerAndWait(schedulePayload);
+            if (!result.ok) {
+                throw new Error(
+                    `Failed to reschedule ${scheduler.id} for courseActivityId: ${courseActivityId}, runId: ${runId}: ${result.error instanceof Error ? result.error.message : JSON.stringify(result.error)}`,
+                );
+            }
+        }
+
+        return {
+            cancelledRunIds: staleRuns.map((r) => r.id),
+            rescheduled: schedulers.map((scheduler) => scheduler.id),
+        };
+    },
+});
@@ -0,0 +1,30 @@
+import { schemaTask } from '@trigger.dev/sdk/v3';
+import { z } from 'zod';
+import pool from '../lib/db';
+import { NotificationService } from '../lib/notify-service';
+import {
+    notificationContextSchema,
+    pushContentSchema,
+    userIdSchema,
+} from '../lib/schemas';
+
+// Sends a push notification that NotificationService held back during the
+// user's quiet hours. Triggered with a delay that ends when they do.
+export const deliverDeferredPush = schemaTask({
+    id: 'deliver-deferred-push',
+    schema: z.object({
+        userId: userIdSchema,
+        push: pushContentSchema,
+        context: notificationContextSchema,
+    }),
+    run: async (payload, { ctx }) => {
+        const notificationService = new NotificationService(pool);
+        const status = await notificationService.sendPushNotification(
+            payload.userId,
+            payload.push,
+            { ...payload.context, taskRunId: ctx.run.id },
+            { ignoreQuietHours: true },
+        );
+        return { userId: payload.userId, status };
+    },
+});
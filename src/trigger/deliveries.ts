@@ -0,0 +1,42 @@
+import { schemaTask } from '@trigger.dev/sdk/v3';
+import { z } from 'zod';
+import pool from '../lib/db';
+import { DELIVERY_STATUSES, DeliveryLog } from '../lib/delivery-log';
+import {
+    idSchema,
+    notificationChannelSchema,
+    notificationKindSchema,
+    timestampSchema,
+    userIdSchema,
+} from '../lib/schemas';
+
+// Support lookup: trigger from the dashboard to answer questions like
+// "did this user get the deadline email for activity 42?"
+export const lookupNotificationDeliveries = schemaTask({
+    id: 'lookup-notification-deliveries',
+    schema: z.object({
+        userId: userIdSchema.optional(),
+        email: z.string().email().optional(),
+        kind: notificationKindSchema.optional(),
+        channel: notificationChannelSchema.optional(),
+        status: z.enum(DELIVERY_STATUSES).optional(),
+        courseActivityId: idSchema.optional(),
+        runId: idSchema.optional(),
+        from: timestampSchema.optional(),
+        to: timestampSchema.optional(),
+        limit: z.number().int().positive().optional(),
+    }),
+    run: async (payload) => {
+        const deliveryLog = new DeliveryLog(pool);
+        const deliveries = await deliveryLog.find({
+            ...payload,
+            from: payload.from ? new Date(payload.from) : undefined,
+            to: payload.to ? new Date(payload.to) : undefined,
+        });
+
+        return {
+            count: deliveries.length,
+            deliveries,
+        };
+    },
+});
@@ -0,0 +1,59 @@
+import { TZDate } from '@date-fns/tz';
+import { schedules } from '@trigger.dev/sdk/v3';
+import { format } from 'date-fns';
+import pool from '../lib/db';
+import { DigestQueue } from '../lib/digest';
+import { NotificationDispatcher } from '../lib/notification-dispatcher';
+
+// Sends each user with email digests turned on one email with everything
+// queued for them since the last digest, grouped by course run. Runs every
+// half hour and picks up the users for whom it is now 19:00 local time.
+// Items whose digest fails to send stay queued for the next day.
+export const sendDailyEmailDigest = schedules.task({
+    id: 'send-daily-email-digest',
+    cron: '*/30 * * * *',
+    run: async (payload, { ctx }) => {
+        const digestQueue = new DigestQueue(pool);
+        const dispatcher = new NotificationDispatcher(pool);
+
+        const due = await digestQueue.findDue(payload.timestamp);
+
+        const sentUserIds: string[] = [];
+        const failedUserIds: string[] = [];
+        for (const digest of due) {
+            const result = await dispatcher.dispatch(
+                'daily_digest',
+                [{ id: digest.userId, timeZone: digest.timeZone }],
+                {
+                    date: payload.timestamp.toISOString(),
+                    sections: digest.sections,
+                },
+                {
+                    // The user's local date, so each user gets one digest a day.
+                    reference: format(
+                        new TZDate(payload.timestamp, digest.timeZone),
+                        'yyyy-MM-dd',
+                    ),
+                    taskRunId: ctx.run.id,
+                },
+            );
+
+            if (result.failedRecipients.length) {
+                failedUserIds.push(digest.userId);
+                continue;
+            }
+            await digestQueue.markSent(digest.itemIds, payload.timestamp);
+            sentUserIds.push(digest.userId);
+        }
+
+        console.log(
+            `Sent ${sentUserIds.length} daily digest(s); ${failedUserIds.length} failed`,
+        );
+
+        return {
+            userCount: due.length,
+            sentUserIds,
+            failedUserIds,
+        };
+    },
+});
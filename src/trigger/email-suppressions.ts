@@ -0,0 +1,38 @@
+import { schemaTask } from '@trigger.dev/sdk/v3';
+import { z } from 'zod';
+import pool from '../lib/db';
+import { EmailSuppressions } from '../lib/email-suppressions';
+import { userIdSchema } from '../lib/schemas';
+
+// Admin lookup: why isn't this user getting our emails?
+export const lookupEmailSuppressions = schemaTask({
+    id: 'lookup-email-suppressions',
+    schema: z
+        .object({
+            userId: userIdSchema.optional(),
+            email: z.string().email().optional(),
+        })
+        .refine((payload) => payload.userId || payload.email, {
+            message: 'Expected a userId or email',
+        }),
+    run: async (payload) => {
+        const suppressions = await new EmailSuppressions(pool).find({
+            userId: payload.userId,
+            address: payload.email,
+        });
+        return { count: suppressions.length, suppressions };
+    },
+});
+
+// Mail an address again, e.g. once the user confirms their mailbox works
+// or asks to be resubscribed after a complaint.
+export const removeEmailSuppression = schemaTask({
+    id: 'remove-email-suppression',
+    schema: z.object({
+        email: z.string().email(),
+    }),
+    run: async (payload) => {
+        const removed = await new EmailSuppressions(pool).remove(payload.email);
+        return { email: payload.email, removed };
+    },
+});
@@ -1,18 +1,27 @@
-import { task } from '@trigger.dev/sdk/v3';
+import { schemaTask, tasks } from '@trigger.dev/sdk/v3';
 import pool from '../lib/db';
-import { emailTemplates } from '../lib/email-template';
-import { NotificationService } from '../lib/notify-service';
-import { convertUTCToISTString } from '../lib/utils';
-
-export const scheduleStudentDeadlineNotification = task({
+import {
+    filterRecipients,
+    groupByEffectiveDeadline,
+    resolveEffectiveDeadlines,
+} from '../lib/deadlines';
+import { NotificationDispatcher } from '../lib/notification-dispatcher';
+import { notificationKinds } from '../lib/notification-kinds';
+import { holdForQuietHours } from '../lib/quiet-hours';
+import { resolveRecipients } from '../lib/recipients';
+import { formatReminderOffset, resolveReminderLadder } from '../lib/reminders';
+import { activityDeadlineSchema } from '../lib/schemas';
+import { getSubmittedUserIds } from '../lib/submissions';
+import { chunk, positiveIntFromEnv } from '../lib/throttle';
+import { UserSettings } from '../lib/user-settings';
+import { formatDateTime, parseDeadline } from '../lib/utils';
+
+export const scheduleStudentDeadlineNotification = schemaTask({
     id: 'schedule-student-deadline-notification',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: activityDeadlineSchema,
+    run: async (payload) => {
         const activityRes = await pool.query(
-            `SELECT a.type FROM "course-activities" ca
+            `SELECT a.type, ca.course_id FROM "course-activities" ca
        JOIN activities a ON a.id = ca.activity_id
        WHERE ca.id = $1`,
             [payload.courseActivityId],
@@ -36,42 +45,86 @@ export const scheduleStudentDeadlineNotification = task({
             return;
         }
 
-        const formattedDeadlineIST = convertUTCToISTString(
-            new Date(payload.deadline),
+        const effective = await resolveEffectiveDeadlines(
+            pool,
+            payload.courseActivityId,
+            payload.runId,
+            parseDeadline(payload.deadline),
         );
+        if (effective.isDisabled) {
+            console.log(
+                `Skipping deadline notification scheduling for disabled courseActivityId: ${payload.courseActivityId}, runId: ${payload.runId}`,
+            );
+            return;
+        }
 
-        await sendStudentDeadlineNotification.trigger(
-            {
-                courseActivityId: payload.courseActivityId,
-                runId: payload.runId,
-                deadline: formattedDeadlineIST,
-            },
-            {
-                delay: payload.deadline,
-                tags: [
-                    `run_${payload.runId}`,
-                    `activity_${payload.courseActivityId}`,
-                    'student_deadline',
-                ],
-                metadata: {
-                    runId: payload.runId,
-                    courseActivityId: payload.courseActivityId,
-                    deadline: payload.deadline,
-                    formattedDeadlineIST: formattedDeadlineIST,
-                    type: 'student_deadline_notification',
-                },
-            },
+        const ladder = await resolveReminderLadder(
+            pool,
+            activityRes.rows[0].course_id,
+            activityType,
         );
+
+        const now = Date.now();
+        const scheduledReminders = [];
+        for (const group of groupByEffectiveDeadline(effective)) {
+            const { deadline, ...recipientFilter } = group;
+            const formattedDeadlineIST = formatDateTime(deadline);
+
+            const upcoming = ladder.filter(
+                (offset) => deadline.getTime() - offset * 60 * 1000 > now,
+            );
+            // Activities published inside the ladder still get one reminder,
+            // right away, as long as the deadline hasn't passed.
+            if (!upcoming.length && deadline.getTime() > now && ladder.length) {
+                upcoming.push(ladder[ladder.length - 1]);
+            }
+
+            for (const offset of upcoming) {
+                const sendAt = new Date(
+                    Math.max(deadline.getTime() - offset * 60 * 1000, now),
+                );
+                await sendStudentDeadlineNotification.trigger(
+                    {
+                        courseActivityId: payload.courseActivityId,
+                        runId: payload.runId,
+                        deadline: deadline.toISOString(),
+                        reminderOffsetMinutes: offset,
+                        ...recipientFilter,
+                    },
+                    {
+                        delay: sendAt.toISOString(),
+                        tags: studentDeadlineTags(
+                            payload.courseActivityId,
+                            payload.runId,
+                            offset,
+                        ),
+                        metadata: {
+                            runId: payload.runId,
+                            courseActivityId: payload.courseActivityId,
+                            deadline: deadline.toISOString(),
+                            formattedDeadlineIST: formattedDeadlineIST,
+                            reminderOffsetMinutes: offset,
+                            type: 'student_deadline_notification',
+                        },
+                    },
+                );
+            }
+
+            scheduledReminders.push({
+                deadline: deadline.toISOString(),
+                reminders: upcoming.map(formatReminderOffset),
+                ...recipientFilter,
+            });
+        }
+
+        return { scheduledReminders };
     },
 });
 
-export const sendStudentDeadlineNotification = task({
+export const sendStudentDeadlineNotification = schemaTask({
     id: 'send-student-deadline-notification',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: notificationKinds.student_deadline.payload,
+    run: async (payload, { ctx }) => {
         const activityRes = await pool.query(
             `SELECT a.id as activity_id, a.type, a.payload, ca.order, c.id as course_id, c.name as course_name
        FROM "course-activities" ca
@@ -117,86 +170,170 @@ export const sendStudentDeadlineNotification = task({
             throw new Error(`Run name not found for runId: ${payload.runId}`);
         }
 
-        const studentsRes = await pool.query(
-            `SELECT u.id, u.name FROM "group-members" gm
-       JOIN users u ON gm.user_id = u.id
-       WHERE gm.group_id = $1 AND gm.role = 'student'`,
-            [groupId],
+        const students = await resolveRecipients(
+            pool,
+            notificationKinds.student_deadline.recipients,
+            { groupId },
         );
 
-        const notificationService = new NotificationService(pool);
-
-        const results = await Promise.allSettled(
-            studentsRes.rows.map(async (student) => {
-                const errors: Error[] = [];
-                const template = emailTemplates.deadlineSoon(
-                    activityName,
-                    runName,
-                    payload.deadline,
-                );
-
-                try {
-                    await notificationService.sendPushNotification(student.id, {
-                        title: `Assignment "${activityName}" is due soon in "${runName}"`,
-                        body: `Hi ${student.name || ''}, your assignment "${activityName}" for "${runName}" is due at ${payload.deadline}. Please make sure to submit before the deadline!`,
-                        data: {
-                            courseActivityId: payload.courseActivityId,
-                            deadline: payload.deadline,
-                        },
-                    });
-                } catch (pushError) {
-                    console.error(
-                        ` Failed to send push notification to studentId: ${student.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        student.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        ` Failed to send email notification to studentId: ${student.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to student ${student.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
+        const submittedIds = await getSubmittedUserIds(
+            pool,
+            activity.type,
+            activity.activity_id,
+            payload.runId,
+        );
+        const studentsToRemind = filterRecipients(students, payload).filter(
+            (s) => !submittedIds.includes(s.id),
         );
+        if (!studentsToRemind.length) {
+            console.log('No students to remind - all have submitted');
+            return;
+        }
 
-        const successful = results.filter(
-            (r) => r.status === 'fulfilled',
-        ).length;
-        const failed = results.filter((r) => r.status === 'rejected').length;
+        // Students in their local quiet hours get this reminder when their
+        // quiet hours end, unless that is after the deadline.
+        const deadline = parseDeadline(payload.deadline);
+        const settings = await new UserSettings(pool).getMany(
+            studentsToRemind.map((s) => s.id),
+        );
+        const { sendNow, deferred } = holdForQuietHours(
+            studentsToRemind,
+            settings,
+            new Date(),
+            deadline,
+        );
+        for (const { sendAt, userIds } of deferred) {
+            await tasks.trigger<typeof sendStudentDeadlineNotification>(
+                'send-student-deadline-notification',
+                {
+                    courseActivityId: payload.courseActivityId,
+                    runId: payload.runId,
+                    deadline: payload.deadline,
+                    reminderOffsetMinutes: payload.reminderOffsetMinutes,
+                    userIds,
+                },
+                {
+                    delay: sendAt.toISOString(),
+                    tags: studentDeadlineTags(
+                        payload.courseActivityId,
+                        payload.runId,
+                        payload.reminderOffsetMinutes,
+                    ),
+                    metadata: {
+                        runId: payload.runId,
+                        courseActivityId: payload.courseActivityId,
+                        deadline: deadline.toISOString(),
+                        reminderOffsetMinutes: payload.reminderOffsetMinutes,
+                        type: 'student_deadline_notification',
+                        heldForQuietHours: true,
+                    },
+                },
+            );
+        }
+        if (deferred.length) {
+            console.log(
+                `Held reminder for ${studentsToRemind.length - sendNow.length} student(s) until their quiet hours end`,
+            );
+        }
+        if (!sendNow.length) return;
 
-        if (failed > 0) {
-            const errors = results
-                .filter((r) => r.status === 'rejected')
-                .map((r: any) => r.reason);
-            console.error('Failed notifications:', errors);
+        if (sendNow.length > notificationChunkSize()) {
+            const items = childRunItems(
+                ctx,
+                sendNow,
+                (userIds) => ({
+                    courseActivityId: payload.courseActivityId,
+                    runId: payload.runId,
+                    deadline: payload.deadline,
+                    reminderOffsetMinutes: payload.reminderOffsetMinutes,
+                    userIds,
+                }),
+                studentDeadlineTags(
+                    payload.courseActivityId,
+                    payload.runId,
+                    payload.reminderOffsetMinutes,
+                ),
+            );
+            await tasks.batchTrigger<typeof sendStudentDeadlineNotification>(
+                'send-student-deadline-notification',
+                items,
+            );
+            console.log(
+                `Split reminder for ${sendNow.length} students into ${items.length} runs`,
+            );
+            return { recipientCount: sendNow.length, childRuns: items.length };
         }
+
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'student_deadline',
+            sendNow,
+            {
+                courseActivityId: payload.courseActivityId,
+                runId: payload.runId,
+                activityName,
+                runName,
+                deadline: deadline.toISOString(),
+            },
+            {
+                courseId: activity.course_id,
+                courseActivityId: payload.courseActivityId,
+                runId: payload.runId,
+                reference:
+                    payload.reminderOffsetMinutes !== undefined
+                        ? `${payload.deadline}:${payload.reminderOffsetMinutes}`
+                        : payload.deadline,
+                taskRunId: ctx.run.id,
+            },
+        );
     },
 });
 
-export const scheduleManagerDeadlineWarning = task({
+// Groups larger than this are split into child runs of at most this many
+// recipients, so no single run sends to a whole large group.
+function notificationChunkSize(): number {
+    return positiveIntFromEnv('NOTIFICATION_CHUNK_SIZE', 200);
+}
+
+/**
+ * batchTrigger items for child runs of the current run that each send to one
+ * chunk of `recipients`, narrowed through the payload's `userIds`.
+ */
+function childRunItems<P>(
+    ctx: { run: { id: string } },
+    recipients: { id: string }[],
+    payload: (userIds: string[]) => P,
+    tags: string[],
+) {
+    return chunk(
+        recipients.map((recipient) => recipient.id),
+        notificationChunkSize(),
+    ).map((userIds, index) => ({
+        payload: payload(userIds),
+        options: { idempotencyKey: `${ctx.run.id}:chunk_${index}`, tags },
+    }));
+}
+
+function studentDeadlineTags(
+    courseActivityId: number,
+    runId: number,
+    reminderOffsetMinutes?: number,
+): string[] {
+    const tags = [
+        `run_${runId}`,
+        `activity_${courseActivityId}`,
+        'student_deadline',
+    ];
+    if (reminderOffsetMinutes !== undefined) {
+        tags.push(`reminder_${formatReminderOffset(reminderOffsetMinutes)}`);
+    }
+    return tags;
+}
+
+export const scheduleManagerDeadlineWarning = schemaTask({
     id: 'schedule-manager-deadline-warning',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: activityDeadlineSchema,
+    run: async (payload) => {
         const activityRes = await pool.query(
             `SELECT a.type FROM "course-activities" ca
        JOIN activities a ON a.id = ca.activity_id
@@ -222,19 +359,32 @@ export const scheduleManagerDeadlineWarning = task({
             return;
         }
 
-        const formattedDeadlineIST = convertUTCToISTString(
-            new Date(payload.deadline),
+        // Managers are warned about the run's deadline; personal extensions
+        // don't move it.
+        const { runDeadline, isDisabled } = await resolveEffectiveDeadlines(
+            pool,
+            payload.courseActivityId,
+            payload.runId,
+            parseDeadline(payload.deadline),
         );
+        if (isDisabled) {
+            console.log(
+                `Skipping manager warning scheduling for disabled courseActivityId: ${payload.courseActivityId}, runId: ${payload.runId}`,
+            );
+            return;
+        }
+
+        const formattedDeadlineIST = formatDateTime(runDeadline);
 
         await sendManagerDeadlineWarning.trigger(
             {
                 courseActivityId: payload.courseActivityId,
                 runId: payload.runId,
-                deadline: formattedDeadlineIST,
+                deadline: runDeadline.toISOString(),
             },
             {
                 delay: new Date(
-                    new Date(payload.deadline).getTime() - 30 * 60 * 1000,
+                    runDeadline.getTime() - 30 * 60 * 1000,
                 ).toISOString(),
                 tags: [
                     `run_${payload.runId}`,
@@ -244,7 +394,7 @@ export const scheduleManagerDeadlineWarning = task({
                 metadata: {
                     runId: payload.runId,
                     courseActivityId: payload.courseActivityId,
-                    deadline: payload.deadline,
+                    deadline: runDeadline.toISOString(),
                     type: 'manager_deadline_warning',
                     formattedDeadlineIST: formattedDeadlineIST,
                 },
@@ -253,13 +403,10 @@ export const scheduleManagerDeadlineWarning = task({
     },
 });
 
-export const sendManagerDeadlineWarning = task({
+export const sendManagerDeadlineWarning = schemaTask({
     id: 'send-manager-deadline-warning',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: notificationKinds.manager_warning.payload,
+    run: async (payload, { ctx }) => {
         const activityRes = await pool.query(
             `SELECT a.id as activity_id, a.type, a.payload, ca.order, c.id as course_id, c.name as course_name
        FROM "course-activities" ca
@@ -309,87 +456,43 @@ export const sendManagerDeadlineWarning = task({
             throw new Error(`Run name not found for runId: ${payload.runId}`);
         }
 
-        const managersRes = await pool.query(
-            `SELECT u.id, u.name FROM course_managers cm
-       JOIN users u ON cm.user_id = u.id
-       WHERE cm.course_id = $1`,
-            [courseId],
+        const managers = await resolveRecipients(
+            pool,
+            notificationKinds.manager_warning.recipients,
+            { courseId },
         );
 
-        if (!managersRes.rows.length) {
+        if (!managers.length) {
             console.log(`No managers found for courseId: ${courseId}`);
             return;
         }
 
-        const notificationService = new NotificationService(pool);
-
-        const results = await Promise.allSettled(
-            managersRes.rows.map(async (manager) => {
-                const errors: Error[] = [];
-                const template = emailTemplates.adminDeadline(
-                    activityName,
-                    runName,
-                    payload.deadline,
-                );
-
-                try {
-                    await notificationService.sendPushNotification(manager.id, {
-                        title: `Upcoming deadline for "${activityName}" in "${runName}"`,
-                        body: `Hi ${manager.name || ''}, the activity "${activityName}" in "${runName}" is due in 30 minutes (at ${payload.deadline}).`,
-                        data: {
-                            courseActivityId: payload.courseActivityId,
-                            deadline: payload.deadline,
-                        },
-                    });
-                } catch (pushError) {
-                    console.error(
-                        ` Failed to send push notification to manager: ${manager.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        manager.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        ` Failed to send email notification to manager: ${manager.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to manager ${manager.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'manager_warning',
+            managers,
+            {
+                courseActivityId: payload.courseActivityId,
+                runId: payload.runId,
+                activityName,
+                runName,
+                deadline: parseDeadline(payload.deadline).toISOString(),
+            },
+            {
+                courseId,
+                courseActivityId: payload.courseActivityId,
+                runId: payload.runId,
+                reference: payload.deadline,
+                taskRunId: ctx.run.id,
+            },
         );
-
-        const successful = results.filter(
-            (r) => r.status === 'fulfilled',
-        ).length;
-        const failed = results.filter((r) => r.status === 'rejected').length;
-
-        if (failed > 0) {
-            const errors = results
-                .filter((r) => r.status === 'rejected')
-                .map((r: any) => r.reason);
-            console.error('Failed manager notifications:', errors);
-        }
     },
 });
 
-export const notifyScorePublished = task({
+export const notifyScorePublished = schemaTask({
     id: 'notify-score-published',
-    run: async (payload: { courseActivityId: number; runId: number }) => {
+    schema: notificationKinds.score_published.payload,
+    run: async (payload, { ctx }) => {
         const { courseActivityId, runId } = payload;
         const res = await pool.query(
             `SELECT a.id as activity_id, a.type, a.payload, 
@@ -439,86 +542,63 @@ export const notifyScorePublished = task({
             throw new Error(`Group not found for runId: ${runId}`);
         }
 
-        const studentsRes = await pool.query(
-            `SELECT u.id, u.name FROM "group-members" gm
-           JOIN users u ON gm.user_id = u.id
-           WHERE gm.group_id = $1 AND gm.role = 'student'`,
-            [groupId],
+        const students = filterRecipients(
+            await resolveRecipients(
+                pool,
+                notificationKinds.score_published.recipients,
+                { groupId },
+            ),
+            payload,
         );
 
-        if (!studentsRes.rows.length) {
+        if (!students.length) {
             console.log(`No students found in group: ${groupId}`);
             return;
         }
 
-        const notificationService = new NotificationService(pool);
-
-        const results = await Promise.allSettled(
-            studentsRes.rows.map(async (student) => {
-                const errors: Error[] = [];
-                const template = emailTemplates.scorePublished(
-                    activityName,
-                    runName,
-                );
+        if (students.length > notificationChunkSize()) {
+            const items = childRunItems(
+                ctx,
+                students,
+                (userIds) => ({ courseActivityId, runId, userIds }),
+                [
+                    `run_${runId}`,
+                    `activity_${courseActivityId}`,
+                    'score_published',
+                ],
+            );
+            await tasks.batchTrigger<typeof notifyScorePublished>(
+                'notify-score-published',
+                items,
+            );
+            console.log(
+                `Split score notification for ${students.length} recipients into ${items.length} runs`,
+            );
+            return {
+                recipientCount: students.length,
+                childRuns: items.length,
+            };
+        }
 
-                try {
-                    await notificationService.sendPushNotification(student.id, {
-                        title: `Score Published: ${activityName}`,
-                        body: `Hi ${student.name || ''}, your score for "${activityName}" in "${runName}" has been published. Check your mail for more details!`,
-                        data: { courseActivityId, runId },
-                    });
-                } catch (pushError) {
-                    console.error(
-                        `Failed to send push notification to student: ${student.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        student.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        ` Failed to send email notification to student: ${student.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to student ${student.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'score_published',
+            students,
+            { courseActivityId, runId, activityName, runName },
+            {
+                courseId: row.course_id,
+                courseActivityId,
+                runId,
+                taskRunId: ctx.run.id,
+            },
         );
-
-        const successful = results.filter(
-            (r) => r.status === 'fulfilled',
-        ).length;
-        const failed = results.filter((r) => r.status === 'rejected').length;
-
-        if (failed > 0) {
-            const errors = results
-                .filter((r) => r.status === 'rejected')
-                .map((r: any) => r.reason);
-            console.error('Failed score notifications:', errors);
-        }
     },
 });
 
-export const notifyActivityPosted = task({
+export const notifyActivityPosted = schemaTask({
     id: 'notify-activity-posted',
-    run: async (
-        payload: { courseActivityId: number; runId: number },
-        params,
-    ) => {
+    schema: notificationKinds.activity_posted.payload,
+    run: async (payload, { ctx }) => {
         const { courseActivityId, runId } = payload;
         const res = await pool.query(
             `SELECT a.id as activity_id, a.type, a.payload, 
@@ -568,68 +648,57 @@ export const notifyActivityPosted = task({
             throw new Error(`Group not found for runId: ${runId}`);
         }
 
-        const notificationService = new NotificationService(pool);
-        const studentsRes = await pool.query(
-            `SELECT u.id, u.name FROM "group-members" gm
-       JOIN users u ON gm.user_id = u.id
-       WHERE gm.group_id = $1 AND gm.role = 'student'`,
-            [groupId],
+        const students = filterRecipients(
+            await resolveRecipients(
+                pool,
+                notificationKinds.activity_posted.recipients,
+                { groupId },
+            ),
+            payload,
         );
-        await Promise.allSettled(
-            studentsRes.rows.map(async (student) => {
-                const errors: Error[] = [];
-                const template = emailTemplates.activityPosted(
-                    activityName,
-                    runName,
-                );
 
-                try {
-                    await notificationService.sendPushNotification(student.id, {
-                        title: `New Activity: ${activityName}`,
-                        body: `Hi ${student.name || ''}, a new activity "${activityName}" has been added to "${runName}". Check it out!`,
-                        data: { courseActivityId, runId },
-                    });
-                } catch (pushError) {
-                    console.error(
-                        `Failed to send push notification to studentId: ${student.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        student.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        `Failed to send email notification to studentId: ${student.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to student ${student.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
+        if (students.length > notificationChunkSize()) {
+            const items = childRunItems(
+                ctx,
+                students,
+                (userIds) => ({ courseActivityId, runId, userIds }),
+                [
+                    `run_${runId}`,
+                    `activity_${courseActivityId}`,
+                    'activity_posted',
+                ],
+            );
+            await tasks.batchTrigger<typeof notifyActivityPosted>(
+                'notify-activity-posted',
+                items,
+            );
+            console.log(
+                `Split activity notification for ${students.length} recipients into ${items.length} runs`,
+            );
+            return {
+                recipientCount: students.length,
+                childRuns: items.length,
+            };
+        }
+
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'activity_posted',
+            students,
+            { courseActivityId, runId, activityName, runName },
+            {
+                courseId: row.course_id,
+                courseActivityId,
+                runId,
+                taskRunId: ctx.run.id,
+            },
         );
     },
 });
-export const notifyRedoEnabled = task({
+export const notifyRedoEnabled = schemaTask({
     id: 'notify-redo-enabled',
-    run: async (payload: {
-        userId: string;
-        courseActivityId: number;
-        newDeadline: string;
-        runId: number;
-    }) => {
+    schema: notificationKinds.redo_enabled.payload,
+    run: async (payload, { ctx }) => {
         const courseActivitiesRes = await pool.query(
             `SELECT ca.id as course_activity_id, c.id as course_id, c.name as course_name
        FROM "course-activities" ca
@@ -690,85 +759,49 @@ export const notifyRedoEnabled = task({
         );
         const runName = runRes.rows[0]?.name;
 
-        const userRes = await pool.query(
-            `SELECT name FROM users WHERE id = $1`,
-            [payload.userId],
-        );
-        const userName = userRes.rows[0]?.name;
-        if (!userName) {
-            throw new Error(`User not found for userId: ${payload.userId}`);
-        }
-
-        const notificationService = new NotificationService(pool);
-        const formattedDeadlineIST = convertUTCToISTString(
-            new Date(payload.newDeadline),
+        const recipients = await resolveRecipients(
+            pool,
+            notificationKinds.redo_enabled.recipients,
+            { userId: payload.userId },
         );
 
         const courseInfo = runName ? runName : courseName;
-        const template = emailTemplates.redoEnabled(
-            activityName,
-            formattedDeadlineIST,
-            courseInfo,
-        );
-
-        const errors: Error[] = [];
-
-        try {
-            await notificationService.sendPushNotification(payload.userId, {
-                title: `Redo enabled for "${activityName}" in "${courseInfo}"`,
-                body: `Hi ${userName}, redo for activity "${activityName}" is enabled. New deadline: ${formattedDeadlineIST}.`,
-                data: {
-                    activityId: payload.courseActivityId.toString(),
-                    newDeadline: payload.newDeadline,
-                },
-            });
-        } catch (pushError) {
-            console.error(
-                `Failed to send push notification to userId: ${payload.userId}`,
-                pushError,
-            );
-            errors.push(pushError as Error);
-        }
-
-        try {
-            await notificationService.sendEmailNotification(
-                payload.userId,
-                template.subject,
-                template.heading,
-                template.subheading,
-                template.body,
-            );
-        } catch (emailError) {
-            console.error(
-                `Failed to send email notification to userId: ${payload.userId}`,
-                emailError,
-            );
-            errors.push(emailError as Error);
-        }
 
-        if (errors.length > 0) {
-            throw new Error(
-                `Failed to send ${errors.length} notification(s) to user ${payload.userId}: ${errors.map((e) => e.message).join('; ')}`,
-            );
-        }
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'redo_enabled',
+            recipients,
+            {
+                courseActivityId: payload.courseActivityId,
+                runId: payload.runId,
+                activityName,
+                courseInfo,
+                newDeadline: parseDeadline(payload.newDeadline).toISOString(),
+            },
+            {
+                courseId: activity.course_id,
+                courseActivityId: payload.courseActivityId,
+                runId: payload.runId,
+                reference: payload.newDeadline,
+                taskRunId: ctx.run.id,
+            },
+        );
     },
 });
 
-export const notifyStudentOnAddedToGroup = task({
+export const notifyStudentOnAddedToGroup = schemaTask({
     id: 'notify-student-added-to-group',
-    run: async (payload: { userId: string; groupId: number }) => {
+    schema: notificationKinds.added_to_group.payload,
+    run: async (payload, { ctx }) => {
         const { userId, groupId } = payload;
-        const userRes = await pool.query(
-            `SELECT id, name FROM users WHERE id = $1`,
-            [userId],
+        const [student] = await resolveRecipients(
+            pool,
+            notificationKinds.added_to_group.recipients,
+            { userId },
         );
-        const student = userRes.rows[0];
-        if (!student) {
-            throw new Error(`Student not found for userId: ${userId}`);
-        }
 
         const groupRes = await pool.query(
-            `SELECT g.id as group_id, g.name as group_name, cr.name as run_name, c.name as course_name
+            `SELECT g.id as group_id, g.name as group_name, cr.name as run_name, c.id as course_id, c.name as course_name
        FROM groups g
        LEFT JOIN "course-runs" cr ON cr.group_id = g.id
        LEFT JOIN courses c ON cr.course_id = c.id
@@ -785,52 +818,26 @@ export const notifyStudentOnAddedToGroup = task({
         if (!groupName) {
             throw new Error(`Group name not found for groupId: ${groupId}`);
         }
-        const notificationService = new NotificationService(pool);
-        const template = emailTemplates.addedToGroup(groupName);
-        const errors: Error[] = [];
-
-        try {
-            await notificationService.sendPushNotification(student.id, {
-                title: `You've been added to group: ${groupName}`,
-                body: `Hi ${student.name || ''}, you have been added to group "${groupName}". Check your dashboard for details!`,
-                data: { groupId },
-            });
-        } catch (pushError) {
-            console.error(
-                `Failed to send push notification to studentId: ${student.id}`,
-                pushError,
-            );
-            errors.push(pushError as Error);
-        }
-
-        try {
-            await notificationService.sendEmailNotification(
-                student.id,
-                template.subject,
-                template.heading,
-                template.subheading,
-                template.body,
-            );
-        } catch (emailError) {
-            console.error(
-                `Failed to send email notification to studentId: ${student.id}`,
-                emailError,
-            );
-            errors.push(emailError as Error);
-        }
 
-        if (errors.length > 0) {
-            throw new Error(
-                `Failed to send ${errors.length} notification(s) to student ${student.id}: ${errors.map((e) => e.message).join('; ')}`,
-            );
-        }
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'added_to_group',
+            [student],
+            { groupId, groupName },
+            {
+                courseId: groupRes.rows[0]?.course_id,
+                groupId,
+                taskRunId: ctx.run.id,
+            },
+        );
     },
 });
 
-export const notifyNewDocumentAdded = task({
+export const notifyNewDocumentAdded = schemaTask({
     id: 'notify-new-document-added',
-    run: async (payload: { runId: number; documentName: string }) => {
-        const { runId, documentName } = payload;
+    schema: notificationKinds.new_document.payload,
+    run: async (payload, { ctx }) => {
+        const { runId, documentId, documentName } = payload;
         const runRes = await pool.query(
             `SELECT group_id, course_id, c.name as course_name 
        FROM "course-runs" cr
@@ -854,115 +861,60 @@ export const notifyNewDocumentAdded = task({
             throw new Error(`Course name not found for runId: ${runId}`);
         }
 
-        const studentsRes = await pool.query(
-            `SELECT u.id, u.name FROM "group-members" gm
-       JOIN users u ON gm.user_id = u.id
-       WHERE gm.group_id = $1 AND gm.role = 'student'`,
-            [groupId],
-        );
-        const managersRes = await pool.query(
-            `SELECT u.id, u.name FROM course_managers cm
-       JOIN users u ON cm.user_id = u.id
-       WHERE cm.course_id = $1`,
-            [courseId],
-        );
-        if (!studentsRes.rows.length && !managersRes.rows.length) return;
-
-        const notificationService = new NotificationService(pool);
-        const template = emailTemplates.newDocument(documentName, courseName);
-
-        await Promise.allSettled(
-            studentsRes.rows.map(async (student) => {
-                const errors: Error[] = [];
-
-                try {
-                    await notificationService.sendPushNotification(student.id, {
-                        title: `New Document Added: ${documentName}`,
-                        body: `Hi ${student.name || ''}, a new document "${documentName}" has been added to your course. Check it out!`,
-                        data: { documentName, runId },
-                    });
-                } catch (pushError) {
-                    console.error(
-                        `Failed to send push notification to studentId: ${student.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        student.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        `Failed to send email notification to studentId: ${student.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to student ${student.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
+        const recipients = filterRecipients(
+            await resolveRecipients(
+                pool,
+                notificationKinds.new_document.recipients,
+                { groupId, courseId },
+            ),
+            payload,
         );
-        await Promise.allSettled(
-            managersRes.rows.map(async (manager) => {
-                const errors: Error[] = [];
-
-                try {
-                    await notificationService.sendPushNotification(manager.id, {
-                        title: `New Document Added: ${documentName}`,
-                        body: `Hi ${manager.name || ''}, a new document "${documentName}" has been added to your course.`,
-                        data: { documentName, runId },
-                    });
-                } catch (pushError) {
-                    console.error(
-                        `Failed to send push notification to managerId: ${manager.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        manager.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        `Failed to send email notification to managerId: ${manager.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to manager ${manager.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
+        if (!recipients.length) return;
+
+        if (recipients.length > notificationChunkSize()) {
+            const items = childRunItems(
+                ctx,
+                recipients,
+                (userIds) => ({ runId, documentId, documentName, userIds }),
+                [`run_${runId}`, 'new_document'],
+            );
+            await tasks.batchTrigger<typeof notifyNewDocumentAdded>(
+                'notify-new-document-added',
+                items,
+            );
+            console.log(
+                `Split document notification for ${recipients.length} recipients into ${items.length} runs`,
+            );
+            return {
+                recipientCount: recipients.length,
+                childRuns: items.length,
+            };
+        }
+
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'new_document',
+            recipients,
+            { runId, documentId, documentName, courseName },
+            {
+                courseId,
+                runId,
+                // Names aren't unique within a run; older callers don't send
+                // the id.
+                reference:
+                    documentId !== undefined
+                        ? `document_${documentId}`
+                        : documentName,
+                taskRunId: ctx.run.id,
+            },
         );
     },
 });
 
-export const scheduleNotifyMissedDeadline = task({
+export const scheduleNotifyMissedDeadline = schemaTask({
     id: 'schedule-notify-missed-deadline',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: activityDeadlineSchema,
+    run: async (payload) => {
         const { courseActivityId, runId, deadline } = payload;
 
         const activityRes = await pool.query(
@@ -999,36 +951,54 @@ export const scheduleNotifyMissedDeadline = task({
             return;
         }
 
-        const formattedDeadlineIST = convertUTCToISTString(new Date(deadline));
+        const effective = await resolveEffectiveDeadlines(
+            pool,
+            courseActivityId,
+            runId,
+            parseDeadline(deadline),
+        );
+        if (effective.isDisabled) {
+            console.log(
+                `Skipping missed deadline scheduling for disabled courseActivityId: ${courseActivityId}, runId: ${runId}`,
+            );
+            return;
+        }
 
-        await notifyMissedDeadline.trigger(
-            { courseActivityId, runId, deadline: formattedDeadlineIST },
-            {
-                delay: deadline,
-                tags: [
-                    `run_${runId}`,
-                    `activity_${courseActivityId}`,
-                    'missed_deadline',
-                ],
-                metadata: {
-                    runId,
+        for (const group of groupByEffectiveDeadline(effective)) {
+            const { deadline: effectiveDeadline, ...recipientFilter } = group;
+            const formattedDeadlineIST = formatDateTime(effectiveDeadline);
+
+            await notifyMissedDeadline.trigger(
+                {
                     courseActivityId,
-                    deadline,
-                    type: 'missed_deadline_notification',
-                    formattedDeadlineIST: formattedDeadlineIST,
+                    runId,
+                    deadline: effectiveDeadline.toISOString(),
+                    ...recipientFilter,
                 },
-            },
-        );
+                {
+                    delay: effectiveDeadline.toISOString(),
+                    tags: [
+                        `run_${runId}`,
+                        `activity_${courseActivityId}`,
+                        'missed_deadline',
+                    ],
+                    metadata: {
+                        runId,
+                        courseActivityId,
+                        deadline: effectiveDeadline.toISOString(),
+                        type: 'missed_deadline_notification',
+                        formattedDeadlineIST: formattedDeadlineIST,
+                    },
+                },
+            );
+        }
     },
 });
 
-export const notifyMissedDeadline = task({
+export const notifyMissedDeadline = schemaTask({
     id: 'notify-missed-deadline',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: notificationKinds.missed_deadline.payload,
+    run: async (payload, { ctx }) => {
         const { courseActivityId, runId, deadline } = payload;
         const res = await pool.query(
             `SELECT a.id as activity_id, a.type, a.payload, 
@@ -1078,41 +1048,22 @@ export const notifyMissedDeadline = task({
             throw new Error(`Group not found for runId: ${runId}`);
         }
 
-        const studentsRes = await pool.query(
-            `SELECT u.id, u.name FROM "group-members" gm
-       JOIN users u ON gm.user_id = u.id
-       WHERE gm.group_id = $1 AND gm.role = 'student'`,
-            [groupId],
+        const students = await resolveRecipients(
+            pool,
+            notificationKinds.missed_deadline.recipients,
+            { groupId },
         );
-        if (!studentsRes.rows.length) return;
+        if (!students.length) return;
 
         const activityType = row?.type;
-        let submittedIds: string[] = [];
-
-        if (activityType === 'assignment') {
-            const submissions = await pool.query(
-                `SELECT DISTINCT user_id FROM assignment_submissions 
-         WHERE activity_id = $1 AND course_run_id = $2`,
-                [activityId, runId],
-            );
-            submittedIds = submissions.rows.map((r) => r.user_id);
-        } else if (activityType === 'quiz') {
-            const attempts = await pool.query(
-                `SELECT DISTINCT user_id FROM "quiz-attempts" 
-         WHERE activity_id = $1 AND course_run_id = $2`,
-                [activityId, runId],
-            );
-            submittedIds = attempts.rows.map((r) => r.user_id);
-        } else if (activityType === 'exam') {
-            const examSubmissions = await pool.query(
-                `SELECT DISTINCT user_id FROM exam_submissions 
-         WHERE activity_id = $1 AND course_run_id = $2 AND submitted_at IS NOT NULL`,
-                [activityId, runId],
-            );
-            submittedIds = examSubmissions.rows.map((r) => r.user_id);
-        }
+        const submittedIds = await getSubmittedUserIds(
+            pool,
+            activityType,
+            activityId,
+            runId,
+        );
 
-        const studentsToNotify = studentsRes.rows.filter(
+        const studentsToNotify = filterRecipients(students, payload).filter(
             (s) => !submittedIds.includes(s.id),
         );
         if (!studentsToNotify.length) {
@@ -1120,72 +1071,56 @@ export const notifyMissedDeadline = task({
             return;
         }
 
-        const notificationService = new NotificationService(pool);
-        const template = emailTemplates.missedDeadline(activityName, runName);
-
-        const results = await Promise.allSettled(
-            studentsToNotify.map(async (student) => {
-                const errors: Error[] = [];
-
-                try {
-                    await notificationService.sendPushNotification(student.id, {
-                        title: `Missed Deadline: ${activityName}`,
-                        body: `Hi ${student.name || ''}, you missed the deadline for \"${activityName}\" in \"${runName}\". Please check with your facilitator for next steps.`,
-                        data: { courseActivityId, runId, deadline },
-                    });
-                } catch (pushError) {
-                    console.error(
-                        ` Failed to send push notification to studentId: ${student.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        student.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        ` Failed to send email notification to studentId: ${student.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to student ${student.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
-        );
-
-        const successful = results.filter(
-            (r) => r.status === 'fulfilled',
-        ).length;
-        const failed = results.filter((r) => r.status === 'rejected').length;
-
-        if (failed > 0) {
-            const errors = results
-                .filter((r) => r.status === 'rejected')
-                .map((r: any) => r.reason);
-            console.error('Failed notifications:', errors);
+        if (studentsToNotify.length > notificationChunkSize()) {
+            const items = childRunItems(
+                ctx,
+                studentsToNotify,
+                (userIds) => ({ courseActivityId, runId, deadline, userIds }),
+                [
+                    `run_${runId}`,
+                    `activity_${courseActivityId}`,
+                    'missed_deadline',
+                ],
+            );
+            await tasks.batchTrigger<typeof notifyMissedDeadline>(
+                'notify-missed-deadline',
+                items,
+            );
+            console.log(
+                `Split missed deadline notification for ${studentsToNotify.length} recipients into ${items.length} runs`,
+            );
+            return {
+                recipientCount: studentsToNotify.length,
+                childRuns: items.length,
+            };
         }
+
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'missed_deadline',
+            studentsToNotify,
+            {
+                courseActivityId,
+                runId,
+                activityName,
+                runName,
+                deadline: parseDeadline(deadline).toISOString(),
+            },
+            {
+                courseId: row.course_id,
+                courseActivityId,
+                runId,
+                reference: deadline,
+                taskRunId: ctx.run.id,
+            },
+        );
     },
 });
 
-export const notifyFacilitatorPostDeadlineSummary = task({
+export const notifyFacilitatorPostDeadlineSummary = schemaTask({
     id: 'notify-facilitator-post-deadline-summary',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: notificationKinds.facilitator_summary.payload,
+    run: async (payload, { ctx }) => {
         const { courseActivityId, runId, deadline } = payload;
 
         const res = await pool.query(
@@ -1249,106 +1184,52 @@ export const notifyFacilitatorPostDeadlineSummary = task({
 
         const studentIds = studentsRes.rows.map((s) => s.id);
         const activityType = row?.type;
-        let submittedIds: string[] = [];
-
-        if (activityType === 'assignment') {
-            const submissions = await pool.query(
-                `SELECT DISTINCT user_id FROM assignment_submissions 
-         WHERE activity_id = $1 AND course_run_id = $2`,
-                [activityId, runId],
-            );
-            submittedIds = submissions.rows.map((r) => r.user_id);
-        } else if (activityType === 'quiz') {
-            const attempts = await pool.query(
-                `SELECT DISTINCT user_id FROM "quiz-attempts" 
-         WHERE activity_id = $1 AND course_run_id = $2`,
-                [activityId, runId],
-            );
-            submittedIds = attempts.rows.map((r) => r.user_id);
-        } else if (activityType === 'exam') {
-            const examSubmissions = await pool.query(
-                `SELECT DISTINCT user_id FROM exam_submissions 
-         WHERE activity_id = $1 AND course_run_id = $2 AND submitted_at IS NOT NULL`,
-                [activityId, runId],
-            );
-            submittedIds = examSubmissions.rows.map((r) => r.user_id);
-        }
+        const submittedIds = await getSubmittedUserIds(
+            pool,
+            activityType,
+            activityId,
+            runId,
+        );
 
         const submitted = studentIds.filter((id) =>
             submittedIds.includes(id),
         ).length;
         const notSubmitted = studentIds.length - submitted;
 
-        const facilitatorsRes = await pool.query(
-            `SELECT u.id, u.name FROM course_managers cm
-       JOIN users u ON cm.user_id = u.id
-       WHERE cm.course_id = $1`,
-            [courseId],
-        );
-        if (!facilitatorsRes.rows.length) return;
-
-        const notificationService = new NotificationService(pool);
-        const template = emailTemplates.facilitatorSummary(
-            activityName,
-            runName,
-            submitted,
-            notSubmitted,
+        const facilitators = await resolveRecipients(
+            pool,
+            notificationKinds.facilitator_summary.recipients,
+            { courseId },
         );
+        if (!facilitators.length) return;
 
-        await Promise.allSettled(
-            facilitatorsRes.rows.map(async (facilitator) => {
-                const errors: Error[] = [];
-
-                try {
-                    await notificationService.sendPushNotification(
-                        facilitator.id,
-                        {
-                            title: `Graded activity deadline passed: ${activityName} `,
-                            body: `Activity "${activityName}" in "${runName}" deadline passed.Submitted: ${submitted}, Not submitted: ${notSubmitted} `,
-                            data: { courseActivityId, submitted, notSubmitted },
-                        },
-                    );
-                } catch (pushError) {
-                    console.error(
-                        `Failed to send push notification to facilitatorId: ${facilitator.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        facilitator.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        `Failed to send email notification to facilitatorId: ${facilitator.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to facilitator ${facilitator.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'facilitator_summary',
+            facilitators,
+            {
+                courseActivityId,
+                runId,
+                activityName,
+                runName,
+                submitted,
+                notSubmitted,
+            },
+            {
+                courseId,
+                courseActivityId,
+                runId,
+                reference: deadline,
+                taskRunId: ctx.run.id,
+            },
         );
     },
 });
 
-export const scheduleNotifyFacilitatorPostDeadlineSummary = task({
+export const scheduleNotifyFacilitatorPostDeadlineSummary = schemaTask({
     id: 'schedule-notify-facilitator-post-deadline-summary',
-    run: async (payload: {
-        courseActivityId: number;
-        runId: number;
-        deadline: string;
-    }) => {
+    schema: activityDeadlineSchema,
+    run: async (payload) => {
         const { courseActivityId, runId, deadline } = payload;
 
         const activityRes = await pool.query(
@@ -1385,12 +1266,27 @@ export const scheduleNotifyFacilitatorPostDeadlineSummary = task({
             return;
         }
 
-        const formattedDeadlineIST = convertUTCToISTString(new Date(deadline));
+        // The summary covers the whole run, so it goes out at the run's
+        // deadline even if some students have extensions.
+        const { runDeadline, isDisabled } = await resolveEffectiveDeadlines(
+            pool,
+            courseActivityId,
+            runId,
+            parseDeadline(deadline),
+        );
+        if (isDisabled) {
+            console.log(
+                `Skipping facilitator summary scheduling for disabled courseActivityId: ${courseActivityId}, runId: ${runId}`,
+            );
+            return;
+        }
+
+        const formattedDeadlineIST = formatDateTime(runDeadline);
 
         await notifyFacilitatorPostDeadlineSummary.trigger(
-            { courseActivityId, runId, deadline: formattedDeadlineIST },
+            { courseActivityId, runId, deadline: runDeadline.toISOString() },
             {
-                delay: deadline,
+                delay: runDeadline.toISOString(),
                 tags: [
                     `run_${runId}`,
                     `activity_${courseActivityId}`,
@@ -1399,7 +1295,7 @@ export const scheduleNotifyFacilitatorPostDeadlineSummary = task({
                 metadata: {
                     runId,
                     courseActivityId,
-                    deadline,
+                    deadline: runDeadline.toISOString(),
                     activityType,
                     formattedDeadlineIST: formattedDeadlineIST,
                     type: 'facilitator_post_deadline_summary',
@@ -1409,9 +1305,10 @@ export const scheduleNotifyFacilitatorPostDeadlineSummary = task({
     },
 });
 
-export const notifyFacilitatorEndOfCourseRunFinalize = task({
+export const notifyFacilitatorEndOfCourseRunFinalize = schemaTask({
     id: 'notify-facilitator-end-of-course-run-finalize',
-    run: async (payload: { courseRunId: number }) => {
+    schema: notificationKinds.course_run_finalize.payload,
+    run: async (payload, { ctx }) => {
         const { courseRunId } = payload;
         const res = await pool.query(
             `SELECT cr.name as run_name, cr.end_date, c.id as course_id, c.name as course_name, g.name as group_name
@@ -1445,77 +1342,33 @@ export const notifyFacilitatorEndOfCourseRunFinalize = task({
         }
 
         const endDate = row.end_date
-            ? new Date(row.end_date).toLocaleDateString('en-US', {
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric',
-              })
-            : '';
-
-        const facilitatorsRes = await pool.query(
-            `SELECT u.id, u.name FROM course_managers cm
-       JOIN users u ON cm.user_id = u.id
-       WHERE cm.course_id = $1`,
-            [courseId],
-        );
-        if (!facilitatorsRes.rows.length) return;
-        const notificationService = new NotificationService(pool);
-        const template = emailTemplates.courseRunFinalize(
-            courseName,
-            runName,
-            endDate,
-        );
+            ? new Date(row.end_date).toISOString()
+            : null;
 
-        await Promise.allSettled(
-            facilitatorsRes.rows.map(async (facilitator) => {
-                const errors: Error[] = [];
-
-                try {
-                    await notificationService.sendPushNotification(
-                        facilitator.id,
-                        {
-                            title: `Course run finalized: ${runName}`,
-                            body: `The course run "${runName}" for course "${courseName}" has been finalized. Please check the dashboard for details.`,
-                            data: { courseRunId },
-                        },
-                    );
-                } catch (pushError) {
-                    console.error(
-                        `Failed to send push notification to facilitatorId: ${facilitator.id}`,
-                        pushError,
-                    );
-                    errors.push(pushError as Error);
-                }
-
-                try {
-                    await notificationService.sendEmailNotification(
-                        facilitator.id,
-                        template.subject,
-                        template.heading,
-                        template.subheading,
-                        template.body,
-                    );
-                } catch (emailError) {
-                    console.error(
-                        `Failed to send email notification to facilitatorId: ${facilitator.id}`,
-                        emailError,
-                    );
-                    errors.push(emailError as Error);
-                }
-
-                if (errors.length > 0) {
-                    throw new Error(
-                        `Failed to send ${errors.length} notification(s) to facilitator ${facilitator.id}: ${errors.map((e) => e.message).join('; ')}`,
-                    );
-                }
-            }),
+        const facilitators = await resolveRecipients(
+            pool,
+            notificationKinds.course_run_finalize.recipients,
+            { courseId },
+        );
+        if (!facilitators.length) return;
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'course_run_finalize',
+            facilitators,
+            { courseRunId, courseName, runName, endDate },
+            {
+                courseId,
+                runId: courseRunId,
+                taskRunId: ctx.run.id,
+            },
         );
     },
 });
 
-export const scheduleNotifyFacilitatorEndOfCourseRunFinalize = task({
+export const scheduleNotifyFacilitatorEndOfCourseRunFinalize = schemaTask({
     id: 'schedule-notify-facilitator-end-of-course-run-finalize',
-    run: async (payload: { courseRunId: number }) => {
+    schema: notificationKinds.course_run_finalize.payload,
+    run: async (payload) => {
         const { courseRunId } = payload;
         const runRes = await pool.query(
             `SELECT end_date FROM "course-runs" WHERE id = $1`,
@@ -1546,37 +1399,29 @@ export const scheduleNotifyFacilitatorEndOfCourseRunFinalize = task({
     },
 });
 
-export const sendStudentPasswordResetEmail = task({
+export const sendStudentPasswordResetEmail = schemaTask({
     id: 'send-student-password-reset-email',
-    run: async (payload: {
-        userId: string;
-        resetUrl: string;
-        expiresInMinutes: number;
-    }) => {
-        const studentRes = await pool.query(
-            `SELECT id FROM users WHERE id = $1`,
-            [payload.userId],
+    schema: notificationKinds.password_reset.payload,
+    run: async (payload, { ctx }) => {
+        const recipients = await resolveRecipients(
+            pool,
+            notificationKinds.password_reset.recipients,
+            { userId: payload.userId },
         );
-        const student = studentRes.rows[0];
 
-        if (!student) {
-            throw new Error(`User not found for userId: ${payload.userId}`);
-        }
-
-        const notificationService = new NotificationService(pool);
-        const template = emailTemplates.passwordResetEmail(
-            payload.resetUrl,
-            payload.expiresInMinutes,
-        );
-
-        await notificationService.sendEmailNotification(
-            payload.userId,
-            template.subject,
-            template.heading,
-            template.subheading,
-            template.body,
-            'Reset Password',
-            payload.resetUrl,
+        const dispatcher = new NotificationDispatcher(pool);
+        return dispatcher.dispatch(
+            'password_reset',
+            recipients,
+            {
+                resetUrl: payload.resetUrl,
+                expiresInMinutes: payload.expiresInMinutes,
+            },
+            {
+                // Every reset request is distinct; only retries of this run dedupe.
+                reference: ctx.run.id,
+                taskRunId: ctx.run.id,
+            },
         );
     },
 });
@@ -0,0 +1,35 @@
+import { schedules } from '@trigger.dev/sdk/v3';
+import pool from '../lib/db';
+import { PushSubscriptions } from '../lib/push-subscriptions';
+
+// Deactivates subscriptions past their expirationTime and reports, per user,
+// the subscriptions turned off since the previous run (gone endpoints are
+// deactivated as they are hit by NotificationService).
+export const cleanupStalePushSubscriptions = schedules.task({
+    id: 'cleanup-stale-push-subscriptions',
+    cron: { pattern: '0 3 * * *', timezone: 'Asia/Kolkata' },
+    run: async (payload) => {
+        const pushSubscriptions = new PushSubscriptions(pool);
+        const since =
+            payload.lastTimestamp ??
+            new Date(payload.timestamp.getTime() - 24 * 60 * 60 * 1000);
+
+        const expiredCount = await pushSubscriptions.deactivateExpired(
+            payload.timestamp,
+        );
+        const staleByUser = await pushSubscriptions.findStale(since);
+
+        console.log(
+            `Deactivated ${expiredCount} expired push subscription(s); ${staleByUser.length} user(s) with stale subscriptions since ${since.toISOString()}`,
+        );
+
+        return {
+            since: since.toISOString(),
+            expiredCount,
+            usersWithoutActiveSubscriptions: staleByUser
+                .filter((report) => report.activeCount === 0)
+                .map((report) => report.userId),
+            staleByUser,
+        };
+    },
+});
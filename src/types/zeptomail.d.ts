@@ -2,5 +2,6 @@ declare module 'zeptomail' {
     export class SendMailClient {
         constructor(options: { url: string; token: string });
         sendMail(payload: any): Promise<any>;
+        sendBatchMail(payload: any): Promise<any>;
     }
 }